@@ -0,0 +1,569 @@
+/**
+ * ACP(Agent Client Protocol) 기반 CLI Runner
+ *
+ * stdio JSON-RPC로 ACP 에이전트와 통신합니다.
+ * session/update 알림을 스트리밍 콘텐츠로 변환하고,
+ * 에이전트가 요청하는 파일 읽기/쓰기 및 권한 요청을 처리합니다.
+ * @see https://agentclientprotocol.com
+ */
+
+import { ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AcpContentBlock,
+  AcpPermissionRequest,
+  AcpSessionUpdate,
+  AcpToolCallContent,
+  AgentInstructions,
+  AcpPermissionOption,
+  CliOptions,
+  CliResult,
+  CliRunner,
+  HealthGuidance,
+  InstallInfo,
+  PermissionDecision,
+  PermissionRequestHandler,
+  StreamCallback,
+  StreamEvent,
+} from './types';
+import { JsonRpcConnection, JsonRpcError } from './jsonRpc';
+import {
+  BudgetGuard,
+  killProcessTree,
+  logDebug,
+  logDebugError,
+  normalizeWindowsDriveLetter,
+  resolveExecutable,
+  SPAWN_DETACHED,
+  spawnCli,
+  UsageCollector,
+  withToolDurations,
+} from './spawnCliRunner';
+
+/**
+ * 지원하는 ACP 프로토콜 버전
+ */
+const ACP_PROTOCOL_VERSION = 1;
+
+/**
+ * session/cancel 전송 후 prompt 응답을 기다리는 최대 시간 (밀리초)
+ */
+const CANCEL_GRACE_MS = 5000;
+
+/**
+ * initialize 응답
+ */
+interface AcpInitializeResponse {
+  protocolVersion: number;
+  agentCapabilities?: {
+    loadSession?: boolean;
+  };
+}
+
+/**
+ * session/prompt 응답
+ */
+interface AcpPromptResponse {
+  stopReason: 'end_turn' | 'max_tokens' | 'max_turn_requests' | 'refusal' | 'cancelled';
+}
+
+/**
+ * ACP 에이전트 실행 명령
+ */
+export interface AcpCommand {
+  /** 실행할 명령어 */
+  command: string;
+  /** 명령어 인자 */
+  args: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env?: Record<string, string>;
+}
+
+/**
+ * 단일 실행(run) 상태
+ */
+interface AcpRunState {
+  /** 전체 누적 텍스트 */
+  fullContent: string;
+  /** 도구 호출 ID별 제목 */
+  toolTitles: Map<string, string>;
+  /** session/load 중 재생되는 히스토리 무시 여부 */
+  replaying: boolean;
+  /** 스트리밍 콜백 */
+  onContent: StreamCallback;
+  /** 사용량 수집기 (ACP는 토큰 사용량을 보고하지 않으므로 실행 시간만 수집) */
+  usage: UsageCollector;
+  /** fs/write_text_file로 쓰기를 허용하는 루트 디렉토리 목록 */
+  writableRoots: string[];
+  /** fs/write_text_file 허용 여부 (read-only 권한 프로필이면 거부) */
+  canWrite: boolean;
+}
+
+/**
+ * ACP 기반 CLI Runner
+ *
+ * 설치 확인, 핸드오프용 인자 등 프로토콜과 무관한 기능은 기반 Runner에 위임합니다.
+ */
+export class AcpCliRunner implements CliRunner {
+  /**
+   * @param base - 설치 확인 및 CLI 인자 생성을 위임할 기반 Runner
+   * @param buildCommand - ACP 모드로 에이전트를 실행하는 명령 생성 함수
+   * @param getWorkspaceRoots - 파일 쓰기를 허용할 workspace 폴더 목록 (비어 있으면 작업 디렉토리만 허용)
+   */
+  constructor(
+    private readonly base: CliRunner,
+    private readonly buildCommand: () => AcpCommand,
+    private readonly getWorkspaceRoots: () => string[] = () => []
+  ) {}
+
+  get name(): string {
+    return this.base.name;
+  }
+
+  getArgumentOutputFormat(): string[] {
+    return this.base.getArgumentOutputFormat();
+  }
+
+  getArgumentAllowedTools(): string[] {
+    return this.base.getArgumentAllowedTools();
+  }
+
+  getArgumentModel(): string[] {
+    return this.base.getArgumentModel();
+  }
+
+  getArgumentResume(sessionId?: string): string[] {
+    return this.base.getArgumentResume(sessionId);
+  }
+
+  getArgumentDirectories(): string[] {
+    return this.base.getArgumentDirectories();
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    return this.base.getArgumentPrompt(options);
+  }
+
+  checkInstallation(): Promise<InstallInfo> {
+    return this.base.checkInstallation();
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return this.base.getInstallGuidance();
+  }
+
+  /**
+   * CLI 실행 (예산 초과 시 중단)
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const budget = new BudgetGuard(options.budget, options.abortSignal);
+    const result = await this.runSession({ ...options, abortSignal: budget.signal }, budget.watch(onContent));
+    return budget.apply(result);
+  }
+
+  /**
+   * ACP 세션 생성/로드 후 프롬프트 전송
+   */
+  private async runSession(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const { prompt, agentInstructions, abortSignal, resumeSessionId, cwd, killGraceMs } = options;
+    const { command, args, env } = this.buildCommand();
+    const executable = await resolveExecutable(command);
+    const workingDir = normalizeWindowsDriveLetter(cwd || process.cwd());
+
+    logDebug('ACP command:', executable);
+    logDebug('ACP args:', JSON.stringify(args, null, 2));
+
+    const childProcess: ChildProcess = spawnCli(executable, args, {
+      cwd: workingDir,
+      env: { ...process.env, ...env },
+      detached: SPAWN_DETACHED, // 종료 시 에이전트가 실행한 하위 프로세스까지 그룹 단위로 종료
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const connection = new JsonRpcConnection(childProcess.stdout!, childProcess.stdin!);
+    const workspaceRoots = this.getWorkspaceRoots();
+    const state: AcpRunState = {
+      fullContent: '',
+      toolTitles: new Map(),
+      replaying: false,
+      onContent: withToolDurations(onContent),
+      usage: new UsageCollector(),
+      writableRoots: workspaceRoots.length > 0 ? workspaceRoots : [workingDir],
+      canWrite: this.base.getPermissionProfile?.() !== 'read-only',
+    };
+
+    let stderr = '';
+    let sessionId: string | undefined;
+    let cancelTimer: NodeJS.Timeout | undefined;
+
+    childProcess.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr += text;
+      logDebugError('[acp stderr]', text);
+    });
+    childProcess.on('close', (exitCode) => connection.close(`Process exited with code ${exitCode}`));
+    childProcess.on('error', (err) => connection.close(err.message));
+
+    connection.onNotification((method, params) => {
+      if (method === 'session/update') {
+        const { update } = params as { update: AcpSessionUpdate };
+        this.handleSessionUpdate(update, state);
+      }
+    });
+    connection.onRequest((method, params) => this.handleAgentRequest(method, params, state, options.onPermissionRequest));
+
+    // 취소 시 현재 턴만 중단하도록 session/cancel 전송, 응답이 없으면 프로세스 종료
+    const abortHandler = () => {
+      if (sessionId) {
+        connection.notify('session/cancel', { sessionId });
+      }
+      cancelTimer = setTimeout(() => killProcessTree(childProcess, killGraceMs), CANCEL_GRACE_MS);
+    };
+    abortSignal?.addEventListener('abort', abortHandler);
+
+    try {
+      const init = await connection.request<AcpInitializeResponse>('initialize', {
+        protocolVersion: ACP_PROTOCOL_VERSION,
+        clientCapabilities: {
+          fs: { readTextFile: true, writeTextFile: state.canWrite },
+          terminal: false,
+        },
+      });
+
+      sessionId = await this.openSession(connection, init, state, workingDir, resumeSessionId);
+
+      const response = await connection.request<AcpPromptResponse>('session/prompt', {
+        sessionId,
+        prompt: this.buildPrompt(prompt, agentInstructions),
+      });
+
+      if (response.stopReason === 'cancelled' || abortSignal?.aborted) {
+        return {
+          success: false,
+          content: state.fullContent,
+          error: 'Interrupted by user',
+          sessionId,
+          usage: state.usage.result,
+          cancelled: true,
+        };
+      }
+
+      return { success: true, content: state.fullContent, sessionId, usage: state.usage.result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const errorDetails = stderr ? `\nStderr: ${stderr}` : '';
+      return {
+        success: false,
+        content: state.fullContent,
+        error: abortSignal?.aborted ? 'Interrupted by user' : `${message}${errorDetails}`,
+        sessionId,
+        usage: state.usage.result,
+        cancelled: abortSignal?.aborted,
+      };
+    } finally {
+      clearTimeout(cancelTimer);
+      abortSignal?.removeEventListener('abort', abortHandler);
+      connection.close();
+      childProcess.stdin?.end();
+      killProcessTree(childProcess, killGraceMs);
+    }
+  }
+
+  /**
+   * 세션 열기
+   * 재개할 세션이 있고 에이전트가 session/load를 지원하면 로드, 아니면 새 세션 생성
+   */
+  private async openSession(
+    connection: JsonRpcConnection,
+    init: AcpInitializeResponse,
+    state: AcpRunState,
+    cwd: string,
+    resumeSessionId?: string
+  ): Promise<string> {
+    if (resumeSessionId && init.agentCapabilities?.loadSession) {
+      // session/load는 이전 대화를 session/update로 재생하므로 출력하지 않음
+      state.replaying = true;
+      try {
+        await connection.request('session/load', { sessionId: resumeSessionId, cwd, mcpServers: [] });
+        return resumeSessionId;
+      } finally {
+        state.replaying = false;
+      }
+    }
+
+    if (resumeSessionId) {
+      logDebug('ACP agent does not support session/load, starting a new session');
+    }
+
+    const { sessionId } = await connection.request<{ sessionId: string }>('session/new', { cwd, mcpServers: [] });
+    return sessionId;
+  }
+
+  /**
+   * 프롬프트 콘텐츠 블록 생성
+   * ACP에는 시스템 프롬프트 개념이 없으므로 에이전트 지침을 앞쪽 텍스트 블록으로 전달
+   */
+  private buildPrompt(prompt: string, agentInstructions?: AgentInstructions): AcpContentBlock[] {
+    const blocks: AcpContentBlock[] = [];
+
+    if (agentInstructions) {
+      blocks.push({
+        type: 'text',
+        text: ['<AgentInstructions>', agentInstructions.name, agentInstructions.content, '</AgentInstructions>'].join('\n'),
+      });
+    }
+
+    blocks.push({ type: 'text', text: prompt });
+    return blocks;
+  }
+
+  /**
+   * session/update 알림을 스트리밍 이벤트로 변환
+   */
+  private handleSessionUpdate(update: AcpSessionUpdate, state: AcpRunState): void {
+    if (state.replaying) {
+      return;
+    }
+
+    for (const event of this.toStreamEvents(update, state)) {
+      if (event.type === 'text') {
+        state.fullContent += event.content;
+      }
+      state.usage.collect(event);
+      state.onContent(event);
+    }
+  }
+
+  /**
+   * session/update 종류별 스트리밍 이벤트 매핑
+   */
+  private toStreamEvents(update: AcpSessionUpdate, state: AcpRunState): StreamEvent[] {
+    switch (update.sessionUpdate) {
+      case 'agent_message_chunk': {
+        const block = update.content as AcpContentBlock | undefined;
+        return block?.type === 'text' && block.text ? [{ type: 'text', content: block.text }] : [];
+      }
+
+      case 'agent_thought_chunk': {
+        const block = update.content as AcpContentBlock | undefined;
+        return block?.type === 'text' && block.text ? [{ type: 'reasoning', content: block.text }] : [];
+      }
+
+      case 'tool_call': {
+        const title = update.title || update.kind || 'tool';
+        if (update.toolCallId) {
+          state.toolTitles.set(update.toolCallId, title);
+        }
+        return [{ type: 'tool_start', toolId: update.toolCallId, toolName: title, params: update.rawInput }];
+      }
+
+      case 'tool_call_update': {
+        if (update.status !== 'completed' && update.status !== 'failed') {
+          return [];
+        }
+        const contents = Array.isArray(update.content) ? update.content : [];
+        const events: StreamEvent[] = [{
+          type: 'tool_end',
+          toolId: update.toolCallId,
+          toolName: (update.toolCallId && state.toolTitles.get(update.toolCallId)) || update.title,
+          status: update.status === 'failed' ? 'error' : 'success',
+          output: this.formatToolCallContent(contents),
+        }];
+
+        const diffs = contents.filter((item) => item.type === 'diff' && item.path);
+        if (update.status === 'completed' && diffs.length > 0) {
+          events.push({
+            type: 'file_change',
+            changes: diffs.map((item) => ({
+              path: item.path!,
+              kind: item.oldText ? 'update' : 'add',
+              diff: this.formatDiff(item),
+            })),
+          });
+        }
+        return events;
+      }
+
+      case 'plan':
+        return [{
+          type: 'plan',
+          entries: (update.entries ?? []).map((entry) => ({ content: entry.content, status: entry.status })),
+        }];
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 도구 호출 콘텐츠를 텍스트로 변환
+   */
+  private formatToolCallContent(contents?: AcpToolCallContent[]): string {
+    if (!contents) {
+      return '';
+    }
+
+    return contents
+      .map((item) => {
+        if (item.type === 'content' && item.content?.type === 'text') {
+          return item.content.text ?? '';
+        }
+        if (item.type === 'diff' && item.path) {
+          return `Edited ${item.path}`;
+        }
+        return '';
+      })
+      .filter((text) => text.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * 에이전트가 클라이언트에 보낸 요청 처리
+   */
+  private async handleAgentRequest(
+    method: string,
+    params: unknown,
+    state: AcpRunState,
+    onPermissionRequest?: PermissionRequestHandler
+  ): Promise<unknown> {
+    switch (method) {
+      case 'session/request_permission':
+        return this.handlePermissionRequest(params as AcpPermissionRequest, onPermissionRequest);
+
+      case 'fs/read_text_file': {
+        const { path: filePath, line, limit } = params as { path: string; line?: number; limit?: number };
+        const text = await fs.promises.readFile(filePath, 'utf-8');
+        if (line === undefined && limit === undefined) {
+          return { content: text };
+        }
+        // line은 1부터 시작
+        const start = Math.max((line ?? 1) - 1, 0);
+        const lines = text.split('\n');
+        const end = limit !== undefined ? start + limit : lines.length;
+        return { content: lines.slice(start, end).join('\n') };
+      }
+
+      case 'fs/write_text_file': {
+        const { path: filePath, content } = params as { path: string; content: string };
+        if (!state.canWrite) {
+          throw new JsonRpcError(-32603, `File writes are disabled by the read-only permission profile: ${filePath}`);
+        }
+        if (!(await this.isInsideRoots(filePath, state.writableRoots))) {
+          throw new JsonRpcError(-32603, `Refusing to write outside the workspace: ${filePath}`);
+        }
+        await fs.promises.writeFile(filePath, content, 'utf-8');
+        return null;
+      }
+
+      default:
+        throw new JsonRpcError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * 파일 경로가 루트 디렉토리 중 하나의 하위에 있는지 확인
+   * 심볼릭 링크를 따라간 실제 경로로 비교 (workspace 밖을 가리키는 링크로 쓰기 방지)
+   */
+  private async isInsideRoots(filePath: string, roots: string[]): Promise<boolean> {
+    const target = await this.resolveRealPath(path.resolve(filePath));
+    if (!target) {
+      return false;
+    }
+
+    for (const root of roots) {
+      const realRoot = await fs.promises.realpath(path.resolve(root)).catch(() => undefined);
+      if (!realRoot) {
+        continue;
+      }
+      const relative = path.relative(realRoot, target);
+      if (relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 쓰기 대상의 실제 경로 확인
+   * 파일이 있으면 링크를 따라간 경로, 없으면 상위 디렉토리의 실제 경로 기준 경로
+   * @returns 실제 경로 (상위 디렉토리가 없거나 대상이 끊어진 링크이면 undefined)
+   */
+  private async resolveRealPath(target: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.realpath(target);
+    } catch {
+      // 대상이 없는 곳을 가리키는 링크이면 쓰기 시 링크 대상에 파일이 생성되므로 거부
+      const isLink = await fs.promises.lstat(target).then((stat) => stat.isSymbolicLink(), () => false);
+      if (isLink) {
+        return undefined;
+      }
+      try {
+        return path.join(await fs.promises.realpath(path.dirname(target)), path.basename(target));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * 도구 실행 권한 요청 처리
+   * 처리 함수가 있으면 채팅에서 사용자 결정을 받아 해당 옵션을 선택하고,
+   * 없으면 거부 옵션을 선택 (쓰기 도구 기본 비활성화 정책과 동일)
+   */
+  private async handlePermissionRequest(
+    request: AcpPermissionRequest,
+    onPermissionRequest?: PermissionRequestHandler
+  ): Promise<unknown> {
+    let decision: PermissionDecision = 'deny';
+
+    if (onPermissionRequest) {
+      const { toolCall } = request;
+      const diffs = (Array.isArray(toolCall.content) ? toolCall.content : [])
+        .filter((item) => item.type === 'diff' && item.path);
+
+      decision = await onPermissionRequest({
+        cli: this.name,
+        toolName: toolCall.title || toolCall.kind || 'tool',
+        kind: toolCall.kind,
+        input: toolCall.rawInput ?? {},
+        diff: diffs.length > 0 ? diffs.map((item) => this.formatDiff(item)).join('\n') : undefined,
+      });
+    }
+
+    const option = this.selectPermissionOption(request.options, decision);
+    if (!option) {
+      return { outcome: { outcome: 'cancelled' } };
+    }
+    return { outcome: { outcome: 'selected', optionId: option.optionId } };
+  }
+
+  /**
+   * 사용자 결정에 맞는 권한 옵션 선택
+   */
+  private selectPermissionOption(
+    options: AcpPermissionOption[],
+    decision: PermissionDecision
+  ): AcpPermissionOption | undefined {
+    const find = (kind: AcpPermissionOption['kind']) => options.find((option) => option.kind === kind);
+
+    // 항상 허용도 이번 요청만 허용 (에이전트가 도구 전체를 기억하지 않도록 하고
+    // 이후 요청은 ChatPermissionManager의 파일 단위 규칙이 응답)
+    switch (decision) {
+      case 'always':
+      case 'allow':
+        return find('allow_once') ?? find('allow_always');
+      default:
+        return find('reject_once') ?? find('reject_always');
+    }
+  }
+
+  /**
+   * ACP diff 콘텐츠를 unified diff 형식으로 변환
+   */
+  private formatDiff(item: AcpToolCallContent): string {
+    const oldLines = item.oldText ? item.oldText.split('\n').map((line) => `-${line}`) : [];
+    const newLines = (item.newText ?? '').split('\n').map((line) => `+${line}`);
+    return [`--- ${item.path}`, `+++ ${item.path}`, ...oldLines, ...newLines].join('\n');
+  }
+}
@@ -0,0 +1,614 @@
+/**
+ * Codex app-server 기반 CLI Runner
+ *
+ * `codex app-server`를 장기 실행 프로세스로 띄우고 stdio JSON-RPC로 통신합니다.
+ * 채팅마다 하나의 스레드를 유지하며, 실행 중인 턴의 중단(turn/interrupt)과
+ * 명령 실행/파일 변경 승인 요청 표시를 지원합니다.
+ */
+
+import { ChildProcess } from 'child_process';
+import {
+  AgentInstructions,
+  CliOptions,
+  CliResult,
+  CliRunner,
+  CodexApprovalRequest,
+  CodexAppServerItem,
+  CodexAppServerPlanStep,
+  CodexAppServerTokenUsage,
+  CodexAppServerTurn,
+  HealthGuidance,
+  InstallInfo,
+  PermissionDecision,
+  StreamCallback,
+  StreamEvent,
+  UsageEvent,
+} from './types';
+import { JsonRpcConnection } from './jsonRpc';
+import {
+  BudgetGuard,
+  DEFAULT_KILL_GRACE_MS,
+  killProcessTree,
+  logDebug,
+  logDebugError,
+  normalizeWindowsDriveLetter,
+  resolveExecutable,
+  SPAWN_DETACHED,
+  spawnCli,
+  UsageCollector,
+  withToolDurations,
+} from './spawnCliRunner';
+
+/**
+ * 클라이언트 정보 (initialize 요청용)
+ */
+const CLIENT_INFO = {
+  name: 'copilot-cli-agents',
+  title: 'GitHub Copilot CLI Agents',
+  version: '0.0.0',
+};
+
+/**
+ * app-server 실행 명령
+ */
+export interface CodexAppServerCommand {
+  /** 실행할 명령어 */
+  command: string;
+  /** 명령어 인자 */
+  args: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env?: Record<string, string>;
+}
+
+/**
+ * 턴 실행 설정 (모델, 추론 강도, 권한 프로필에 따른 샌드박스/승인 정책)
+ */
+export interface CodexTurnSettings {
+  model?: string;
+  effort?: string;
+  /** 샌드박스 모드 (생략 시 config.toml 설정 사용) */
+  sandbox?: string;
+  /** 승인 정책 (생략 시 config.toml 설정 사용) */
+  approvalPolicy?: string;
+}
+
+/**
+ * CodexAppServerRunner 생성 옵션
+ */
+export interface CodexAppServerRunnerOptions {
+  /** app-server 실행 명령 생성 함수 */
+  buildCommand: () => CodexAppServerCommand;
+  /** 턴 실행 설정 조회 함수 */
+  getTurnSettings: () => CodexTurnSettings;
+}
+
+/**
+ * 실행 중인 app-server 프로세스
+ */
+interface AppServer {
+  process: ChildProcess;
+  connection: JsonRpcConnection;
+  /** initialize 핸드셰이크 완료 Promise */
+  ready: Promise<void>;
+  /** 이 프로세스에 로드된 스레드 ID 목록 */
+  loadedThreads: Set<string>;
+}
+
+/**
+ * 승인 요청에 대한 app-server 결정 값
+ */
+type CodexApprovalDecision = 'accept' | 'acceptForSession' | 'decline';
+
+/**
+ * 채팅 권한 결정을 app-server 결정 값으로 변환
+ * 항상 허용은 ChatPermissionManager의 파일 단위 규칙이 처리하므로 app-server에는 이번 요청만 허용
+ */
+const APPROVAL_DECISIONS: Record<PermissionDecision, CodexApprovalDecision> = {
+  allow: 'accept',
+  always: 'accept',
+  deny: 'decline',
+};
+
+/**
+ * 샌드박스 모드별 turn/start 샌드박스 정책 (thread/start는 모드 문자열, turn/start는 정책 객체를 받음)
+ */
+const SANDBOX_POLICY_TYPES: Record<string, string> = {
+  'read-only': 'readOnly',
+  'workspace-write': 'workspaceWrite',
+  'danger-full-access': 'dangerFullAccess',
+};
+
+/**
+ * 스레드별 알림 수신기
+ */
+interface ThreadListener {
+  /** 알림 처리 */
+  onNotification: (method: string, params: Record<string, unknown>) => void;
+  /** 승인 요청 처리 (app-server에 반환할 결정) */
+  onApprovalRequest: (kind: 'command' | 'fileChange', request: CodexApprovalRequest) => Promise<CodexApprovalDecision>;
+  /** 프로세스 종료 */
+  onExit: (reason: string) => void;
+}
+
+/**
+ * Codex app-server 기반 CLI Runner
+ *
+ * 설치 확인, 핸드오프용 인자 등 프로토콜과 무관한 기능은 기반 Runner에 위임합니다.
+ */
+export class CodexAppServerRunner implements CliRunner {
+  private server?: AppServer;
+  private readonly threadListeners = new Map<string, ThreadListener>();
+
+  /**
+   * @param base - 설치 확인 및 CLI 인자 생성을 위임할 기반 Runner
+   * @param options - app-server 실행 옵션
+   */
+  constructor(
+    private readonly base: CliRunner,
+    private readonly options: CodexAppServerRunnerOptions
+  ) {}
+
+  get name(): string {
+    return this.base.name;
+  }
+
+  getArgumentOutputFormat(): string[] {
+    return this.base.getArgumentOutputFormat();
+  }
+
+  getArgumentAllowedTools(): string[] {
+    return this.base.getArgumentAllowedTools();
+  }
+
+  getArgumentModel(): string[] {
+    return this.base.getArgumentModel();
+  }
+
+  getArgumentResume(sessionId?: string): string[] {
+    return this.base.getArgumentResume(sessionId);
+  }
+
+  getArgumentDirectories(): string[] {
+    return this.base.getArgumentDirectories();
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    return this.base.getArgumentPrompt(options);
+  }
+
+  checkInstallation(): Promise<InstallInfo> {
+    return this.base.checkInstallation();
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return this.base.getInstallGuidance();
+  }
+
+  /**
+   * app-server 프로세스 시작 및 initialize 핸드셰이크
+   * 이미 실행 중이면 기존 프로세스를 재사용
+   * @throws app-server를 시작할 수 없는 경우 (구버전 CLI 등)
+   */
+  async start(cwd?: string): Promise<void> {
+    if (!this.server) {
+      const { command, args, env } = this.options.buildCommand();
+      const executable = await resolveExecutable(command);
+      // 실행 파일 확인 중 다른 호출이 먼저 시작했으면 그 프로세스를 재사용
+      this.server ??= this.spawnServer(executable, args, env, cwd);
+    }
+
+    try {
+      await this.server.ready;
+    } catch (error) {
+      this.stopServer();
+      throw error;
+    }
+  }
+
+  /**
+   * CLI 실행 (스레드 생성/재개 후 턴 실행, 예산 초과 시 턴 중단)
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const { resumeSessionId, cwd } = options;
+    const budget = new BudgetGuard(options.budget, options.abortSignal);
+
+    let threadId: string | undefined;
+    try {
+      await this.start(cwd);
+      threadId = await this.openThread(resumeSessionId, cwd);
+      const result = await this.runTurn(threadId, { ...options, abortSignal: budget.signal }, budget.watch(onContent));
+      return budget.apply(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return budget.apply({ success: false, content: '', error: message, sessionId: threadId });
+    }
+  }
+
+  /**
+   * app-server 프로세스 종료
+   */
+  dispose(): void {
+    this.stopServer();
+  }
+
+  /**
+   * app-server 프로세스 생성
+   * @param executable - 실행 파일 경로
+   * @param args - 인자 배열
+   * @param env - process.env에 덮어쓸 환경 변수
+   * @param cwd - 작업 디렉토리
+   */
+  private spawnServer(
+    executable: string,
+    args: string[],
+    env: Record<string, string> | undefined,
+    cwd?: string
+  ): AppServer {
+    logDebug('Codex app-server command:', executable);
+    logDebug('Codex app-server args:', JSON.stringify(args, null, 2));
+
+    const childProcess = spawnCli(executable, args, {
+      cwd: normalizeWindowsDriveLetter(cwd || process.cwd()),
+      env: { ...process.env, ...env },
+      detached: SPAWN_DETACHED, // 종료 시 Codex가 실행한 하위 프로세스까지 그룹 단위로 종료
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    // Codex app-server는 "jsonrpc" 필드를 생략한 JSON-RPC를 사용
+    const connection = new JsonRpcConnection(childProcess.stdout!, childProcess.stdin!, { includeVersion: false });
+    let stderr = '';
+
+    const server: AppServer = {
+      process: childProcess,
+      connection,
+      loadedThreads: new Set(),
+      ready: connection
+        .request('initialize', { clientInfo: CLIENT_INFO })
+        .then(() => connection.notify('initialized')),
+    };
+    // start()에서 처리하지 않는 경우를 위해 unhandled rejection 방지
+    server.ready.catch(() => {});
+
+    childProcess.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr += text;
+      logDebugError('[codex app-server stderr]', text);
+    });
+
+    const handleExit = (reason: string) => {
+      const detail = stderr ? `${reason}\nStderr: ${stderr}` : reason;
+      connection.close(detail);
+      if (this.server === server) {
+        this.server = undefined;
+      }
+      for (const listener of this.threadListeners.values()) {
+        listener.onExit(detail);
+      }
+    };
+    childProcess.on('close', (exitCode) => handleExit(`Codex app-server exited with code ${exitCode}`));
+    childProcess.on('error', (err) => handleExit(err.message));
+
+    connection.onNotification((method, params) => {
+      const payload = (params ?? {}) as Record<string, unknown>;
+      const threadId = payload.threadId as string | undefined;
+      if (threadId) {
+        this.threadListeners.get(threadId)?.onNotification(method, payload);
+      }
+    });
+
+    connection.onRequest(async (method, params) => {
+      const request = params as CodexApprovalRequest;
+      const listener = this.threadListeners.get(request.threadId);
+
+      if (method === 'item/commandExecution/requestApproval') {
+        return { decision: (await listener?.onApprovalRequest('command', request)) ?? 'decline' };
+      }
+      if (method === 'item/fileChange/requestApproval') {
+        return { decision: (await listener?.onApprovalRequest('fileChange', request)) ?? 'decline' };
+      }
+      throw new Error(`Unsupported request: ${method}`);
+    });
+
+    return server;
+  }
+
+  /**
+   * app-server 프로세스 트리 종료
+   * @param killGraceMs - SIGKILL까지 유예 시간 (밀리초)
+   */
+  private stopServer(killGraceMs?: number): void {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.connection.close();
+    server.process.stdin?.end();
+    killProcessTree(server.process, killGraceMs);
+  }
+
+  /**
+   * 스레드 열기
+   * 현재 프로세스에 로드된 스레드면 그대로 사용하고, 아니면 thread/resume 또는 thread/start
+   */
+  private async openThread(resumeSessionId: string | undefined, cwd?: string): Promise<string> {
+    const server = this.server!;
+    const { model, sandbox, approvalPolicy } = this.options.getTurnSettings();
+
+    // exec 경로와 동일하게 권한 프로필의 샌드박스/승인 정책 적용
+    if (resumeSessionId) {
+      if (!server.loadedThreads.has(resumeSessionId)) {
+        await server.connection.request('thread/resume', { threadId: resumeSessionId, approvalPolicy, sandbox });
+        server.loadedThreads.add(resumeSessionId);
+      }
+      return resumeSessionId;
+    }
+
+    const { thread } = await server.connection.request<{ thread: { id: string } }>('thread/start', {
+      model,
+      cwd,
+      approvalPolicy,
+      sandbox,
+    });
+    server.loadedThreads.add(thread.id);
+    return thread.id;
+  }
+
+  /**
+   * 턴 실행 후 turn/completed 알림까지 스트리밍
+   * 취소 시 turn/interrupt로 현재 턴만 중단하고 스레드는 유지
+   */
+  private runTurn(threadId: string, options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const { prompt, agentInstructions, abortSignal, onPermissionRequest, killGraceMs } = options;
+    const server = this.server!;
+    const { model, effort, sandbox, approvalPolicy } = this.options.getTurnSettings();
+    const sandboxType = sandbox ? SANDBOX_POLICY_TYPES[sandbox] : undefined;
+
+    return new Promise((resolve) => {
+      let fullContent = '';
+      let turnId: string | undefined;
+      let lastError: string | undefined;
+      let settled = false;
+      let interruptTimer: NodeJS.Timeout | undefined;
+      // 승인 요청 시 미리보기용 파일 변경 목록 (itemId별)
+      const fileChanges = new Map<string, CodexAppServerItem['changes']>();
+      // 턴 동안 모델 호출별 사용량 누적
+      const usage: UsageEvent = { type: 'usage', inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      let hasUsage = false;
+      const usageCollector = new UsageCollector();
+      const onEvent = withToolDurations(onContent);
+
+      const emit = (events: StreamEvent[]) => {
+        for (const event of events) {
+          if (event.type === 'text') {
+            fullContent += event.content;
+          }
+          usageCollector.collect(event);
+          onEvent(event);
+        }
+      };
+
+      const finish = (result: Omit<CliResult, 'content' | 'sessionId'>) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(interruptTimer);
+        abortSignal?.removeEventListener('abort', abortHandler);
+        this.threadListeners.delete(threadId);
+        resolve({ ...result, content: fullContent, sessionId: threadId, usage: usageCollector.result });
+      };
+
+      const abortHandler = () => {
+        // 턴이 이미 끝났으면 인터럽트하지 않음 (turn/start 응답 후 재확인하는 경우)
+        if (settled) {
+          return;
+        }
+        if (turnId) {
+          server.connection.request('turn/interrupt', { threadId, turnId }).catch((error) => {
+            logDebugError('Failed to interrupt Codex turn:', error);
+          });
+          // 인터럽트 후에도 턴이 끝나지 않으면 app-server 프로세스 트리 종료 (스레드는 thread/resume으로 복구)
+          interruptTimer = setTimeout(() => this.stopServer(killGraceMs), killGraceMs ?? DEFAULT_KILL_GRACE_MS);
+        } else {
+          finish({ success: false, error: 'Interrupted by user', cancelled: true });
+        }
+      };
+
+      this.threadListeners.set(threadId, {
+        onNotification: (method, params) => {
+          switch (method) {
+            // turn/start 응답보다 알림이 먼저 처리될 수 있으므로 턴 ID를 알림에서도 기록
+            case 'turn/started':
+              turnId ??= (params.turn as CodexAppServerTurn).id;
+              break;
+            case 'item/started': {
+              const item = params.item as CodexAppServerItem;
+              if (item.type === 'fileChange') {
+                fileChanges.set(item.id, item.changes);
+              }
+              emit(this.toStartedEvents(item));
+              break;
+            }
+            case 'item/completed':
+              emit(this.toCompletedEvents(params.item as CodexAppServerItem));
+              break;
+            case 'turn/plan/updated': {
+              const plan = (params.plan ?? []) as CodexAppServerPlanStep[];
+              emit([{
+                type: 'plan',
+                entries: plan.map((entry) => ({
+                  content: entry.step,
+                  status: entry.status === 'inProgress' ? 'in_progress' : entry.status,
+                })),
+              }]);
+              break;
+            }
+            case 'thread/tokenUsage/updated': {
+              const last = (params.tokenUsage as { last?: CodexAppServerTokenUsage } | undefined)?.last;
+              if (last) {
+                hasUsage = true;
+                usage.inputTokens! += last.inputTokens;
+                usage.cachedInputTokens! += last.cachedInputTokens;
+                usage.outputTokens! += last.outputTokens;
+                usage.totalTokens! += last.totalTokens;
+                // 턴 도중에도 예산을 확인할 수 있도록 누적 사용량을 중간 사용량으로 즉시 전달
+                emit([{ ...usage, partial: true }]);
+              }
+              break;
+            }
+            case 'error': {
+              const error = params.error as { message?: string } | undefined;
+              if (!params.willRetry && error?.message) {
+                lastError = error.message;
+              }
+              break;
+            }
+            case 'turn/completed': {
+              const turn = params.turn as CodexAppServerTurn;
+              if (hasUsage) {
+                emit([usage]);
+              }
+              if (turn.status === 'completed') {
+                finish({ success: true });
+              } else if (turn.status === 'interrupted') {
+                finish({ success: false, error: 'Interrupted by user', cancelled: true });
+              } else {
+                finish({ success: false, error: turn.error?.message || lastError || 'Codex turn failed' });
+              }
+              break;
+            }
+          }
+        },
+        onApprovalRequest: async (kind, request) => {
+          if (onPermissionRequest) {
+            const changes = fileChanges.get(request.itemId) ?? [];
+            const decision = await onPermissionRequest({
+              cli: this.name,
+              toolName: kind === 'command' ? 'commandExecution' : 'fileChange',
+              kind: kind === 'command' ? 'execute' : 'edit',
+              input: kind === 'command'
+                ? { command: request.command ?? '' }
+                : { files: changes.map((change) => change.path) },
+              description: request.reason ?? undefined,
+              diff: changes.map((change) => change.diff).filter(Boolean).join('\n') || undefined,
+            });
+            return APPROVAL_DECISIONS[decision];
+          }
+
+          const target = kind === 'command'
+            ? `run \`${request.command ?? 'a command'}\``
+            : 'apply file changes';
+          const reason = request.reason ? ` (${request.reason})` : '';
+          // 응답 본문(대화 기록)에 섞이지 않도록 텍스트가 아닌 알림으로 전달
+          emit([{
+            type: 'error',
+            message: `🔐 Codex requested approval to ${target}${reason}. Declined: write access is disabled in chat (use \`/handoff\` for full capabilities).`,
+          }]);
+          return 'decline';
+        },
+        onExit: (reason) => {
+          finish(abortSignal?.aborted
+            ? { success: false, error: 'Interrupted by user', cancelled: true }
+            : { success: false, error: reason });
+        },
+      });
+
+      if (abortSignal?.aborted) {
+        finish({ success: false, error: 'Interrupted by user', cancelled: true });
+        return;
+      }
+      abortSignal?.addEventListener('abort', abortHandler);
+      emit([{ type: 'session', sessionId: threadId, model }]);
+
+      // app-server 스레드는 실행 단위 설정 재정의를 받지 않으므로 prefix 방식으로 프롬프트에 지침을 포함
+      const [text] = this.base.getArgumentPrompt({ agentInstructions, prompt });
+
+      // 이미 로드된 스레드에도 현재 권한 프로필이 적용되도록 턴마다 승인/샌드박스 정책 전달
+      server.connection
+        .request<{ turn: CodexAppServerTurn }>('turn/start', {
+          threadId,
+          input: [{ type: 'text', text }],
+          model,
+          effort,
+          approvalPolicy,
+          sandboxPolicy: sandboxType ? { type: sandboxType } : undefined,
+        })
+        .then(({ turn }) => {
+          turnId = turn.id;
+          // turn/start 응답 전에 취소된 경우
+          if (abortSignal?.aborted) {
+            abortHandler();
+          }
+        })
+        .catch((error: Error) => finish({ success: false, error: error.message }));
+    });
+  }
+
+  /**
+   * item/started 아이템을 스트리밍 이벤트로 변환
+   */
+  private toStartedEvents(item: CodexAppServerItem): StreamEvent[] {
+    switch (item.type) {
+      case 'commandExecution':
+        return item.command
+          ? [{ type: 'tool_start', toolId: item.id, toolName: 'shell', params: { command: item.command } }]
+          : [];
+      case 'mcpToolCall':
+        return [{ type: 'tool_start', toolId: item.id, toolName: item.tool || 'mcp_tool', params: item.arguments }];
+      case 'webSearch':
+        return [{ type: 'tool_start', toolId: item.id, toolName: 'web_search', params: { query: item.query ?? '' } }];
+      case 'fileChange':
+        return [{ type: 'tool_start', toolId: item.id, toolName: 'apply_patch', params: { files: (item.changes ?? []).map((change) => change.path) } }];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * item/completed 아이템을 스트리밍 이벤트로 변환
+   */
+  private toCompletedEvents(item: CodexAppServerItem): StreamEvent[] {
+    const status = item.status === 'failed' ? 'error' : item.status === 'declined' ? 'declined' : 'success';
+
+    switch (item.type) {
+      case 'agentMessage':
+        return item.text ? [{ type: 'text', content: item.text }] : [];
+      case 'reasoning': {
+        const summary = (item.summary ?? []).join('\n');
+        // 항목 단위이므로 다음 추론 항목과 문단으로 구분
+        return summary ? [{ type: 'reasoning', content: `${summary}\n\n` }] : [];
+      }
+      case 'commandExecution':
+        return [{
+          type: 'tool_end',
+          toolId: item.id,
+          toolName: 'shell',
+          status,
+          output: item.aggregatedOutput || '',
+          exitCode: item.exitCode,
+          durationMs: item.durationMs ?? undefined,
+        }];
+      case 'mcpToolCall':
+        return [{ type: 'tool_end', toolId: item.id, toolName: item.tool, status }];
+      case 'webSearch':
+        return [{ type: 'tool_end', toolId: item.id, toolName: 'web_search', status }];
+      case 'fileChange': {
+        const events: StreamEvent[] = [{ type: 'tool_end', toolId: item.id, toolName: 'apply_patch', status }];
+        if (status === 'success') {
+          events.push({
+            type: 'file_change',
+            changes: (item.changes ?? []).map((change) => ({
+              path: change.path,
+              kind: change.kind?.type,
+              diff: change.diff,
+            })),
+          });
+        }
+        return events;
+      }
+      default:
+        return [];
+    }
+  }
+}
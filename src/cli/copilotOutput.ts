@@ -0,0 +1,249 @@
+/**
+ * GitHub Copilot CLI 출력 파서
+ *
+ * `copilot -p`는 JSON 이벤트 대신 사람이 읽는 텍스트를 출력하므로
+ * 응답 텍스트, 도구 호출 블록, 마지막 사용량 통계를 라인 단위로 구분합니다.
+ *
+ * ```
+ * 응답 텍스트
+ * ✓ Read README.md            도구 호출 (● 진행, ✓ 성공, ✗ 실패)
+ *   $ git status              셸 명령 (선택)
+ *   └ 12 lines read           도구 결과 요약 (들여쓰기된 라인)
+ * Total usage est:       1 Premium request
+ * Total duration (wall): 6.3s
+ * Usage by model:
+ *     claude-sonnet-4.5    8.5k input, 312 output, 6.1k cache read, 0 cache write (Est. 1 Premium request)
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StreamEvent, ToolEndStatus } from './types';
+import { ParseResult } from './spawnCliRunner';
+
+/**
+ * 도구 호출 라인 패턴 (상태 기호 + 도구 제목)
+ */
+const TOOL_LINE_PATTERN = /^([●✓✔✗✘])\s+(.+)$/;
+
+/**
+ * 도구 결과 라인 앞의 트리 기호
+ */
+const TOOL_DETAIL_PREFIX_PATTERN = /^\s*[└↪│]\s?/;
+
+/**
+ * 사용량 통계 시작 라인 패턴
+ */
+const STATS_START_PATTERN = /^Total usage est:/;
+
+/**
+ * 실행 시간 통계 라인 패턴
+ */
+const WALL_DURATION_PATTERN = /^Total duration \(wall\):\s*(.+)$/;
+
+/**
+ * 모델별 사용량 라인 패턴
+ */
+const MODEL_USAGE_PATTERN = /^(\S+)\s+([\d.]+[kmb]?) input,\s*([\d.]+[kmb]?) output(?:,\s*([\d.]+[kmb]?) cache read)?/i;
+
+/**
+ * 세션 ID(UUID) 패턴
+ */
+const SESSION_ID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+/**
+ * 세션 기록 디렉토리 (버전에 따라 위치가 다름)
+ */
+const SESSION_DIRECTORIES = ['session-state', 'history-session-state'];
+
+/**
+ * 도구 상태 기호별 종료 상태
+ */
+const TOOL_STATUS: Record<string, ToolEndStatus> = {
+  '●': 'success',
+  '✓': 'success',
+  '✔': 'success',
+  '✗': 'error',
+  '✘': 'error',
+};
+
+/**
+ * 축약된 토큰 수 변환 (예: 8.5k → 8500)
+ */
+function parseCount(value: string): number {
+  const multipliers: Record<string, number> = { k: 1_000, m: 1_000_000, b: 1_000_000_000 };
+  const unit = value.slice(-1).toLowerCase();
+  const multiplier = multipliers[unit];
+  return Math.round(parseFloat(multiplier ? value.slice(0, -1) : value) * (multiplier ?? 1));
+}
+
+/**
+ * 실행 시간 변환 (예: 1m 5.2s → 65200)
+ */
+function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1_000 };
+  let total: number | undefined;
+  for (const match of value.matchAll(/(\d+(?:\.\d+)?)\s*(h|m|s)\b/g)) {
+    total = (total ?? 0) + parseFloat(match[1]) * units[match[2]];
+  }
+  return total === undefined ? undefined : Math.round(total);
+}
+
+/**
+ * 출력 대기 중인 도구 호출
+ */
+interface PendingTool {
+  toolId: string;
+  toolName: string;
+  status: ToolEndStatus;
+  output: string[];
+}
+
+/**
+ * Copilot CLI 출력 파서 (실행 단위로 생성)
+ */
+export class CopilotOutputParser {
+  private pendingTool?: PendingTool;
+  private inStats = false;
+  private toolCount = 0;
+
+  /**
+   * 출력 라인 파싱
+   * @param line - ANSI 제거된 출력 라인 (들여쓰기 유지)
+   * @returns 파싱 결과
+   */
+  parseLine(line: string): ParseResult {
+    const trimmed = line.trim();
+
+    // 사용량 통계 블록 (응답 마지막)
+    if (this.inStats) {
+      return { events: this.parseStatsLine(trimmed) };
+    }
+    if (STATS_START_PATTERN.test(trimmed)) {
+      this.inStats = true;
+      return { events: this.flushTool() };
+    }
+
+    // 도구 호출 시작
+    const toolMatch = line.match(TOOL_LINE_PATTERN);
+    if (toolMatch) {
+      const events = this.flushTool();
+      const toolId = `copilot-tool-${++this.toolCount}`;
+      this.pendingTool = { toolId, toolName: toolMatch[2].trim(), status: TOOL_STATUS[toolMatch[1]], output: [] };
+      events.push({ type: 'tool_start', toolId, toolName: this.pendingTool.toolName });
+      return { events };
+    }
+
+    // 도구 호출 블록의 들여쓰기된 상세 라인 (명령어, 결과 요약)
+    if (this.pendingTool && trimmed && /^\s/.test(line)) {
+      this.pendingTool.output.push(line.replace(TOOL_DETAIL_PREFIX_PATTERN, '').trim());
+      return { events: [] };
+    }
+
+    // 도구 블록 직후의 빈 줄은 블록 구분용이므로 출력하지 않음
+    if (this.pendingTool && !trimmed) {
+      return { events: this.flushTool() };
+    }
+
+    const events = this.flushTool();
+    events.push({ type: 'text', content: `${line}\n` });
+    return { events };
+  }
+
+  /**
+   * 대기 중인 도구 호출을 종료 이벤트로 변환
+   */
+  private flushTool(): StreamEvent[] {
+    const tool = this.pendingTool;
+    this.pendingTool = undefined;
+    if (!tool) {
+      return [];
+    }
+    return [{
+      type: 'tool_end',
+      toolId: tool.toolId,
+      toolName: tool.toolName,
+      status: tool.status,
+      output: tool.output.length > 0 ? tool.output.join('\n') : undefined,
+    }];
+  }
+
+  /**
+   * 사용량 통계 라인 파싱 (실행 시간, 모델별 토큰)
+   */
+  private parseStatsLine(line: string): StreamEvent[] {
+    const durationMatch = line.match(WALL_DURATION_PATTERN);
+    if (durationMatch) {
+      const durationMs = parseDuration(durationMatch[1]);
+      return durationMs === undefined ? [] : [{ type: 'usage', durationMs }];
+    }
+
+    const modelMatch = line.match(MODEL_USAGE_PATTERN);
+    if (modelMatch) {
+      return [{
+        type: 'usage',
+        model: modelMatch[1],
+        inputTokens: parseCount(modelMatch[2]),
+        outputTokens: parseCount(modelMatch[3]),
+        cachedInputTokens: modelMatch[4] ? parseCount(modelMatch[4]) : undefined,
+      }];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Copilot CLI 설정 디렉토리 목록 (XDG_CONFIG_HOME 우선)
+ */
+export function getCopilotConfigDirs(): string[] {
+  const dirs = [path.join(os.homedir(), '.copilot')];
+  if (process.env.XDG_CONFIG_HOME) {
+    dirs.unshift(path.join(process.env.XDG_CONFIG_HOME, '.copilot'));
+  }
+  return dirs;
+}
+
+/**
+ * 실행 이후 생성/갱신된 최신 Copilot CLI 세션 ID 검색
+ * `copilot -p`는 세션 ID를 출력하지 않으므로 세션 기록 파일 이름에서 추출
+ * @param since - 실행 시작 시각 (이후 수정된 기록만 대상)
+ * @param configDirs - Copilot CLI 설정 디렉토리 목록
+ * @returns 세션 ID 또는 undefined
+ */
+export async function findCopilotSessionId(
+  since: number,
+  configDirs: string[] = getCopilotConfigDirs()
+): Promise<string | undefined> {
+  let latest: { sessionId: string; mtimeMs: number } | undefined;
+
+  for (const configDir of configDirs) {
+    for (const directory of SESSION_DIRECTORIES) {
+      const sessionDir = path.join(configDir, directory);
+      let entries: string[];
+      try {
+        entries = await fs.promises.readdir(sessionDir);
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries) {
+        const sessionId = entry.match(SESSION_ID_PATTERN)?.[0];
+        if (!sessionId) {
+          continue;
+        }
+        try {
+          const { mtimeMs } = await fs.promises.stat(path.join(sessionDir, entry));
+          if (mtimeMs >= since && (!latest || mtimeMs > latest.mtimeMs)) {
+            latest = { sessionId, mtimeMs };
+          }
+        } catch {
+          // 검색 중 삭제된 기록은 무시
+        }
+      }
+    }
+  }
+
+  return latest?.sessionId;
+}
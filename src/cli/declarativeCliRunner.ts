@@ -0,0 +1,330 @@
+/**
+ * 선언형 CLI Runner
+ *
+ * 설정으로 정의한 명령어, 인자 템플릿, JSON 경로 매핑만으로
+ * 한 줄에 JSON 하나를 출력하는(stream-json) 임의의 에이전트 CLI를 실행합니다.
+ */
+
+import {
+  AgentInstructions,
+  CliCommand,
+  CustomAgentDefinition,
+  CustomAgentValueMapping,
+  HealthGuidance,
+  InstallInfo,
+  JsonLineMatch,
+  StreamEvent,
+} from './types';
+import { executeCommand, findExecutable, ParseResult, SpawnCliRunner } from './spawnCliRunner';
+
+/**
+ * 인자 템플릿 변수
+ */
+interface TemplateVariables {
+  prompt?: string;
+  model?: string;
+  sessionId?: string;
+  directory?: string;
+}
+
+/**
+ * DeclarativeCliRunner 생성 옵션
+ */
+export interface DeclarativeCliRunnerOptions {
+  /** 디렉토리 인자로 전달할 워크스페이스 폴더 경로 조회 함수 */
+  getDirectories: () => string[];
+}
+
+/**
+ * JSON 경로로 값 조회
+ * $.a.b, $.items[0].text, a.b 형식을 지원
+ * @param value - 파싱된 JSON 값
+ * @param jsonPath - JSON 경로
+ * @returns 조회된 값 (없으면 undefined)
+ */
+export function getJsonPathValue(value: unknown, jsonPath: string): unknown {
+  const segments = jsonPath.replace(/^\$\.?/, '').match(/[^.[\]]+/g) ?? [];
+  return segments.reduce<unknown>(
+    (current, segment) =>
+      current !== null && typeof current === 'object'
+        ? (current as Record<string, unknown>)[segment]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * 매칭 조건 확인 (조건이 없으면 항상 일치)
+ */
+function matches(message: unknown, when?: JsonLineMatch): boolean {
+  return Object.entries(when ?? {}).every(([jsonPath, expected]) => getJsonPathValue(message, jsonPath) === expected);
+}
+
+/**
+ * 단일 매핑 또는 매핑 배열을 배열로 변환
+ */
+function toArray<T>(mapping: T | T[] | undefined): T[] {
+  if (mapping === undefined) {
+    return [];
+  }
+  return Array.isArray(mapping) ? mapping : [mapping];
+}
+
+/**
+ * 조건이 일치하는 첫 번째 매핑 검색
+ */
+function findMapping<T extends { when?: JsonLineMatch }>(message: unknown, mapping: T | T[] | undefined): T | undefined {
+  return toArray(mapping).find((candidate) => matches(message, candidate.when));
+}
+
+/**
+ * 조건이 일치하는 매핑의 문자열 값 추출 (빈 문자열 제외)
+ */
+function extractString(message: unknown, mapping: CustomAgentValueMapping | CustomAgentValueMapping[] | undefined): string | undefined {
+  for (const candidate of toArray(mapping)) {
+    if (!matches(message, candidate.when)) {
+      continue;
+    }
+    const value = getJsonPathValue(message, candidate.path);
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 값을 도구 출력 문자열로 변환
+ */
+function stringifyOutput(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * 인자 템플릿 확장
+ * 템플릿에 사용된 변수가 하나라도 없으면 빈 배열을 반환 (선택 인자 생략)
+ * @param template - 인자 템플릿
+ * @param variables - 템플릿 변수
+ * @returns 확장된 인자
+ */
+function expandTemplate(template: string[] | undefined, variables: TemplateVariables): string[] {
+  const args: string[] = [];
+  for (const arg of template ?? []) {
+    let missing = false;
+    args.push(
+      arg.replace(/\$\{(prompt|model|sessionId|directory)\}/g, (_, name: keyof TemplateVariables) => {
+        const value = variables[name];
+        if (value === undefined) {
+          missing = true;
+        }
+        return value ?? '';
+      })
+    );
+    if (missing) {
+      return [];
+    }
+  }
+  return args;
+}
+
+/**
+ * 선언형 CLI Runner
+ */
+export class DeclarativeCliRunner extends SpawnCliRunner {
+  readonly name: string;
+
+  /**
+   * @param definition - 커스텀 에이전트 정의 (${workspaceFolder} 등 설정 변수는 치환된 상태)
+   * @param options - 생성 옵션
+   */
+  constructor(
+    private readonly definition: CustomAgentDefinition,
+    private readonly options: DeclarativeCliRunnerOptions
+  ) {
+    super();
+    this.name = definition.name;
+  }
+
+  getArgumentOutputFormat(): string[] {
+    return [...(this.definition.args ?? [])];
+  }
+
+  getArgumentAllowedTools(): string[] {
+    // 권한 관련 인자는 args에 직접 정의
+    return [];
+  }
+
+  getArgumentModel(): string[] {
+    return expandTemplate(this.definition.modelArgs, { model: this.definition.model });
+  }
+
+  getArgumentResume(sessionId?: string): string[] {
+    return expandTemplate(this.definition.resumeArgs, { sessionId });
+  }
+
+  getArgumentDirectories(): string[] {
+    return this.options
+      .getDirectories()
+      .flatMap((directory) => expandTemplate(this.definition.directoryArgs, { directory }));
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    const { agentInstructions, prompt } = options;
+
+    // 시스템 프롬프트 옵션을 알 수 없으므로 에이전트 지침을 사용자 프롬프트 앞에 추가
+    const finalPrompt = agentInstructions
+      ? [
+        '<AgentInstructions>',
+        agentInstructions.name,
+        agentInstructions.content,
+        '</AgentInstructions>',
+        '',
+        '<user_request>',
+        prompt ?? '',
+        '</user_request>',
+      ].join('\n')
+      : prompt ?? '';
+
+    return [finalPrompt];
+  }
+
+  /**
+   * promptArgs가 없으면 프롬프트를 stdin으로 전달
+   */
+  protected getStdinInput(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    return this.definition.promptArgs ? undefined : this.getArgumentPrompt(options)[0];
+  }
+
+  /**
+   * 대화형 CLI 실행 명령 (/handoff용)
+   */
+  getInteractiveCommand(args: string[]): CliCommand {
+    return { command: this.definition.command, args, env: this.definition.env };
+  }
+
+  async checkInstallation(): Promise<InstallInfo> {
+    try {
+      const cliPath = await findExecutable(this.definition.command);
+
+      // 버전 옵션이 없는 CLI도 있으므로 버전 확인 실패는 무시
+      let version: string | undefined;
+      try {
+        const versionArgs = this.definition.versionArgs ?? ['--version'];
+        version = (await executeCommand(cliPath, versionArgs, 10000, this.definition.env)).trim() || undefined;
+      } catch {
+        version = undefined;
+      }
+
+      return {
+        status: 'installed',
+        version,
+        path: cliPath,
+      };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        status: 'not_installed',
+        error: `\`${this.definition.command}\` for agent "${this.definition.name}" was not found: ${message}`,
+      };
+    }
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return {
+      title: 'How to Fix',
+      steps: [
+        `Install the CLI so that \`${this.definition.command}\` is on your PATH`,
+        `Or set \`command\` of agent "${this.definition.name}" to the absolute path of the executable`,
+        'After fixing, run `@cli /doctor` again to verify',
+      ],
+    };
+  }
+
+  protected buildCliOptions(options?: {
+    resumeSessionId?: string;
+    agentInstructions?: AgentInstructions;
+    prompt?: string;
+  }): CliCommand {
+    const { resumeSessionId, agentInstructions, prompt } = options ?? {};
+    const args: string[] = [];
+
+    args.push(...this.getArgumentOutputFormat());
+    args.push(...this.getArgumentModel());
+    args.push(...this.getArgumentResume(resumeSessionId));
+    args.push(...this.getArgumentDirectories());
+
+    // promptArgs가 있으면 프롬프트를 인자로 전달 (없으면 getStdinInput으로 전달)
+    if (this.definition.promptArgs) {
+      const [finalPrompt] = this.getArgumentPrompt({ agentInstructions, prompt });
+      args.push(...expandTemplate(this.definition.promptArgs, { prompt: finalPrompt }));
+    }
+
+    return {
+      command: this.definition.command,
+      args,
+      env: this.definition.env,
+    };
+  }
+
+  protected parseLineWithSession(line: string): ParseResult {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // JSON 파싱 실패 시 무시
+      return { events: [] };
+    }
+
+    const { output } = this.definition;
+    const events: StreamEvent[] = [];
+
+    const sessionId = extractString(message, output.sessionId);
+    if (sessionId) {
+      events.push({ type: 'session', sessionId });
+    }
+
+    const reasoning = extractString(message, output.reasoning);
+    if (reasoning) {
+      events.push({ type: 'reasoning', content: reasoning });
+    }
+
+    const toolUse = findMapping(message, output.toolUse);
+    const toolName = toolUse && getJsonPathValue(message, toolUse.name);
+    if (toolUse && typeof toolName === 'string') {
+      const input = toolUse.input ? getJsonPathValue(message, toolUse.input) : undefined;
+      events.push({
+        type: 'tool_start',
+        toolId: toolUse.id ? stringifyOutput(getJsonPathValue(message, toolUse.id)) : undefined,
+        toolName,
+        params: input !== null && typeof input === 'object'
+          ? (input as Record<string, unknown>)
+          : input === undefined ? undefined : { input },
+      });
+    }
+
+    const toolResult = findMapping(message, output.toolResult);
+    if (toolResult) {
+      const name = toolResult.name ? getJsonPathValue(message, toolResult.name) : undefined;
+      events.push({
+        type: 'tool_end',
+        toolId: toolResult.id ? stringifyOutput(getJsonPathValue(message, toolResult.id)) : undefined,
+        toolName: typeof name === 'string' ? name : undefined,
+        status: toolResult.isError && getJsonPathValue(message, toolResult.isError) === true ? 'error' : 'success',
+        output: toolResult.output ? stringifyOutput(getJsonPathValue(message, toolResult.output)) : undefined,
+      });
+    }
+
+    const text = extractString(message, output.text);
+    if (text) {
+      events.push({ type: 'text', content: text });
+    }
+
+    return {
+      events,
+      sessionId,
+    };
+  }
+}
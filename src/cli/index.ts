@@ -4,4 +4,12 @@
 
 export * from './types';
 export * from './spawnCliRunner';
+export * from './persistentProcess';
+export * from './jsonRpc';
+export * from './acpCliRunner';
+export * from './codexAppServerRunner';
+export * from './declarativeCliRunner';
+export * from './copilotOutput';
+export * from './opencodeOutput';
 export * from './utils';
+export * from './permissionBroker';
@@ -0,0 +1,243 @@
+/**
+ * stdio 기반 JSON-RPC 연결
+ *
+ * 자식 프로세스의 stdin/stdout으로 줄 단위(NDJSON) JSON-RPC 메시지를 주고받습니다.
+ * 요청/응답 매칭, 알림 수신, 상대방이 보낸 요청 처리를 담당합니다.
+ */
+
+import { Readable, Writable } from 'stream';
+import { logDebug, logDebugError } from './spawnCliRunner';
+
+/**
+ * JSON-RPC 에러 객체
+ */
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC 메시지 (요청, 알림, 응답 공통)
+ */
+interface JsonRpcMessage {
+  jsonrpc?: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+/**
+ * 상대방이 보낸 알림 처리 함수
+ */
+export type JsonRpcNotificationHandler = (method: string, params: unknown) => void;
+
+/**
+ * 상대방이 보낸 요청 처리 함수 (반환값이 응답 result로 전송됨)
+ */
+export type JsonRpcRequestHandler = (method: string, params: unknown) => Promise<unknown>;
+
+/**
+ * JSON-RPC 에러 응답
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * JSON-RPC 연결 옵션
+ */
+export interface JsonRpcConnectionOptions {
+  /** 메시지에 "jsonrpc": "2.0" 필드 포함 여부 (기본값: true) */
+  includeVersion?: boolean;
+}
+
+/**
+ * 대기 중인 요청
+ */
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * stdio 기반 JSON-RPC 연결
+ */
+export class JsonRpcConnection {
+  private nextId = 1;
+  private buffer = '';
+  private closed = false;
+  private readonly pending = new Map<number | string, PendingRequest>();
+  private notificationHandler?: JsonRpcNotificationHandler;
+  private requestHandler?: JsonRpcRequestHandler;
+  private readonly includeVersion: boolean;
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable,
+    options: JsonRpcConnectionOptions = {}
+  ) {
+    this.includeVersion = options.includeVersion ?? true;
+    this.input.on('data', (chunk: Buffer) => this.handleData(chunk));
+    this.output.on('error', (err) => logDebugError('JSON-RPC write error:', err));
+  }
+
+  /**
+   * 알림 처리 함수 등록
+   */
+  onNotification(handler: JsonRpcNotificationHandler): void {
+    this.notificationHandler = handler;
+  }
+
+  /**
+   * 요청 처리 함수 등록
+   */
+  onRequest(handler: JsonRpcRequestHandler): void {
+    this.requestHandler = handler;
+  }
+
+  /**
+   * 요청 전송 후 응답 대기
+   * @param method - 메서드 이름
+   * @param params - 파라미터
+   * @returns 응답 result
+   */
+  request<T = unknown>(method: string, params?: unknown): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new Error(`Connection closed before calling ${method}`));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.write({ id, method, params });
+    });
+  }
+
+  /**
+   * 알림 전송 (응답 없음)
+   * @param method - 메서드 이름
+   * @param params - 파라미터
+   */
+  notify(method: string, params?: unknown): void {
+    if (!this.closed) {
+      this.write({ method, params });
+    }
+  }
+
+  /**
+   * 연결 종료 (대기 중인 요청은 모두 실패 처리)
+   * @param reason - 종료 사유
+   */
+  close(reason = 'Connection closed'): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error(reason));
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * 메시지 한 줄 전송
+   */
+  private write(message: JsonRpcMessage): void {
+    const payload = this.includeVersion ? { jsonrpc: '2.0', ...message } : message;
+    logDebug('[JSON-RPC →]', JSON.stringify(payload));
+    this.output.write(`${JSON.stringify(payload)}\n`);
+  }
+
+  /**
+   * 수신 데이터를 라인 단위로 분리하여 처리
+   */
+  private handleData(chunk: Buffer): void {
+    this.buffer += chunk.toString();
+    const lines = this.buffer.split('\n');
+    // 마지막 불완전한 라인은 버퍼에 유지
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('{')) {
+        continue;
+      }
+
+      try {
+        this.handleMessage(JSON.parse(trimmed) as JsonRpcMessage);
+      } catch (error) {
+        // JSON 파싱 실패는 무시하고 디버그 로그만 출력
+        logDebugError('Failed to parse JSON-RPC line:', trimmed, error);
+      }
+    }
+  }
+
+  /**
+   * 단일 메시지 처리 (응답 / 요청 / 알림 구분)
+   */
+  private handleMessage(message: JsonRpcMessage): void {
+    logDebug('[JSON-RPC ←]', JSON.stringify(message));
+
+    // 응답
+    if (message.method === undefined && message.id !== undefined) {
+      const pending = this.pending.get(message.id);
+      if (!pending) {
+        return;
+      }
+      this.pending.delete(message.id);
+
+      if (message.error) {
+        pending.reject(new JsonRpcError(message.error.code, message.error.message, message.error.data));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message.method === undefined) {
+      return;
+    }
+
+    // 상대방이 보낸 요청
+    if (message.id !== undefined) {
+      void this.handleIncomingRequest(message.id, message.method, message.params);
+      return;
+    }
+
+    // 알림
+    this.notificationHandler?.(message.method, message.params);
+  }
+
+  /**
+   * 상대방 요청 처리 후 응답 전송
+   */
+  private async handleIncomingRequest(id: number | string, method: string, params: unknown): Promise<void> {
+    if (!this.requestHandler) {
+      this.write({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+      return;
+    }
+
+    try {
+      const result = await this.requestHandler(method, params);
+      this.write({ id, result: result ?? null });
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        this.write({ id, error: { code: error.code, message: error.message, data: error.data } });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        this.write({ id, error: { code: -32603, message } });
+      }
+    }
+  }
+}
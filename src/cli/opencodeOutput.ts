@@ -0,0 +1,150 @@
+/**
+ * OpenCode 출력 파서
+ *
+ * `opencode run --format json`은 메시지 파트가 완료될 때마다 JSON 이벤트를 한 줄씩 출력합니다.
+ *
+ * ```
+ * {"type":"step_start","sessionID":"ses_…","part":{"type":"step-start"}}
+ * {"type":"tool_use","sessionID":"ses_…","part":{"type":"tool","callID":"…","tool":"read","state":{"status":"completed",…}}}
+ * {"type":"text","sessionID":"ses_…","part":{"type":"text","text":"…"}}
+ * {"type":"step_finish","sessionID":"ses_…","part":{"type":"step-finish","cost":0.01,"tokens":{…}}}
+ * ```
+ */
+
+import { OpenCodePart, OpenCodeStreamMessage, StreamEvent } from './types';
+import { ParseResult } from './spawnCliRunner';
+
+/**
+ * 파일을 수정하는 OpenCode 도구 목록
+ */
+const FILE_WRITE_TOOLS = ['edit', 'write'];
+
+/**
+ * 계획(할 일 목록) 갱신 도구 이름
+ */
+const TODO_TOOL = 'todowrite';
+
+/**
+ * todowrite 도구 입력 항목
+ */
+interface OpenCodeTodo {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+}
+
+/**
+ * 완료된 도구 파트를 스트리밍 이벤트로 변환 (계획/파일 변경 도구 포함)
+ * OpenCode는 도구 실행이 끝난 뒤에만 tool_use 이벤트를 출력하므로 시작과 종료를 함께 생성
+ */
+function toToolEvents(part: OpenCodePart): StreamEvent[] {
+  const state = part.state;
+  if (!state || (state.status !== 'completed' && state.status !== 'error')) {
+    return [];
+  }
+
+  const toolName = part.tool || 'tool';
+  const params = state.input ?? {};
+  const events: StreamEvent[] = [{ type: 'tool_start', toolId: part.callID, toolName, params }];
+
+  if (toolName === TODO_TOOL && Array.isArray(params.todos)) {
+    const todos = (params.todos as OpenCodeTodo[]).filter((todo) => todo.status !== 'cancelled');
+    events.push({
+      type: 'plan',
+      entries: todos.map((todo) => ({
+        content: todo.content,
+        status: todo.status as 'pending' | 'in_progress' | 'completed',
+      })),
+    });
+  }
+
+  if (state.status === 'completed' && FILE_WRITE_TOOLS.includes(toolName) && typeof params.filePath === 'string') {
+    events.push({ type: 'file_change', changes: [{ path: params.filePath, kind: toolName === 'edit' ? 'update' : undefined }] });
+  }
+
+  events.push({
+    type: 'tool_end',
+    toolId: part.callID,
+    toolName,
+    status: state.status === 'error' ? 'error' : 'success',
+    output: state.status === 'error' ? state.error ?? '' : state.output ?? '',
+    durationMs: state.time?.end !== undefined ? state.time.end - state.time.start : undefined,
+  });
+  return events;
+}
+
+/**
+ * OpenCode 출력 파서 (실행 단위로 생성)
+ */
+export class OpenCodeOutputParser {
+  private sessionId?: string;
+
+  /**
+   * 출력 라인 파싱
+   * @param line - JSON 이벤트 라인
+   * @returns 파싱 결과
+   */
+  parseLine(line: string): ParseResult {
+    let message: OpenCodeStreamMessage;
+    try {
+      message = JSON.parse(line) as OpenCodeStreamMessage;
+    } catch {
+      // JSON 파싱 실패 시 무시
+      return { events: [] };
+    }
+
+    const events: StreamEvent[] = [];
+
+    // 모든 이벤트에 세션 ID가 포함되므로 처음 한 번만 세션 이벤트 생성
+    if (message.sessionID && message.sessionID !== this.sessionId) {
+      this.sessionId = message.sessionID;
+      events.push({ type: 'session', sessionId: message.sessionID });
+    }
+
+    const part = message.part;
+    switch (message.type) {
+      case 'text':
+        if (part?.text) {
+          events.push({ type: 'text', content: part.text });
+        }
+        break;
+
+      case 'reasoning':
+        if (part?.text) {
+          events.push({ type: 'reasoning', content: part.text });
+        }
+        break;
+
+      case 'tool_use':
+        if (part) {
+          events.push(...toToolEvents(part));
+        }
+        break;
+
+      // 단계(모델 호출)마다 사용량이 보고되므로 UsageCollector에서 합산
+      case 'step_finish':
+        if (part?.tokens) {
+          events.push({
+            type: 'usage',
+            inputTokens: part.tokens.input,
+            outputTokens: (part.tokens.output ?? 0) + (part.tokens.reasoning ?? 0),
+            cachedInputTokens: part.tokens.cache?.read,
+            costUsd: part.cost,
+          });
+        }
+        break;
+
+      case 'error': {
+        const errorMessage = message.error?.data?.message || message.error?.name;
+        if (errorMessage) {
+          events.push({ type: 'error', message: errorMessage });
+        }
+        break;
+      }
+    }
+
+    return {
+      events,
+      sessionId: message.sessionID,
+    };
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * 도구 실행 권한 요청 브로커
+ *
+ * CLI가 실행하는 로컬 MCP 권한 서버(permissionMcpServer)와 확장 사이를
+ * 로컬 소켓(Unix domain socket / Windows named pipe)으로 연결합니다.
+ * 실행(run)마다 채널을 만들어 권한 요청을 해당 채팅 응답으로 전달합니다.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PermissionDecision, PermissionRequestHandler } from './types';
+import { logDebug, logDebugError } from './spawnCliRunner';
+
+/**
+ * MCP 서버 이름 (Claude --mcp-config에 등록되는 이름)
+ */
+export const PERMISSION_MCP_SERVER_NAME = 'cca_permission';
+
+/**
+ * Claude --permission-prompt-tool에 전달할 MCP 도구 이름
+ */
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_MCP_SERVER_NAME}__approve`;
+
+/**
+ * 소켓 경로 환경 변수 이름
+ */
+export const PERMISSION_SOCKET_ENV = 'CCA_PERMISSION_SOCKET';
+
+/**
+ * 채널 ID 환경 변수 이름
+ */
+export const PERMISSION_CHANNEL_ENV = 'CCA_PERMISSION_CHANNEL';
+
+/**
+ * MCP 서버가 소켓으로 보내는 권한 요청 메시지
+ */
+export interface BrokerRequestMessage {
+  /** 채널 ID */
+  channelId: string;
+  /** 도구 이름 */
+  toolName: string;
+  /** 도구 입력 파라미터 */
+  input: Record<string, unknown>;
+}
+
+/**
+ * 브로커가 MCP 서버로 보내는 응답 메시지
+ */
+export interface BrokerResponseMessage {
+  decision: PermissionDecision;
+}
+
+/**
+ * 권한 요청 채널 (실행 단위)
+ */
+export interface PermissionChannel {
+  /** 채널 ID */
+  readonly id: string;
+  /** CLI 이름 */
+  readonly cli: string;
+  /** 현재 권한 요청 처리 함수 (장기 실행 프로세스는 턴마다 교체) */
+  handler?: PermissionRequestHandler;
+  /** 채널 해제 */
+  dispose(): void;
+}
+
+/**
+ * 도구 실행 권한 요청 브로커
+ */
+export class PermissionBroker {
+  private server?: net.Server;
+  private socketPath?: string;
+  private listening?: Promise<void>;
+  private readonly channels = new Map<string, PermissionChannel>();
+
+  /**
+   * 권한 요청 채널 생성 (필요 시 소켓 서버 시작)
+   * @param cli - CLI 이름
+   * @param handler - 권한 요청 처리 함수
+   * @returns 생성된 채널
+   */
+  async createChannel(cli: string, handler?: PermissionRequestHandler): Promise<PermissionChannel> {
+    await this.listen();
+
+    const id = crypto.randomUUID();
+    const channel: PermissionChannel = {
+      id,
+      cli,
+      handler,
+      dispose: () => {
+        this.channels.delete(id);
+      },
+    };
+    this.channels.set(id, channel);
+    return channel;
+  }
+
+  /**
+   * 채널에 연결되는 MCP 서버 설정 JSON 생성 (Claude --mcp-config 용)
+   * @param channel - 권한 요청 채널
+   * @returns MCP 설정 JSON 문자열
+   */
+  getMcpConfig(channel: PermissionChannel): string {
+    return JSON.stringify({
+      mcpServers: {
+        [PERMISSION_MCP_SERVER_NAME]: {
+          type: 'stdio',
+          // VS Code Extension Host의 실행 파일(Electron)을 Node 모드로 실행
+          command: process.execPath,
+          args: [path.join(__dirname, 'permissionMcpServer.js')],
+          env: {
+            ELECTRON_RUN_AS_NODE: '1',
+            [PERMISSION_SOCKET_ENV]: this.socketPath,
+            [PERMISSION_CHANNEL_ENV]: channel.id,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * 소켓 서버 종료
+   */
+  dispose(): void {
+    this.channels.clear();
+    this.server?.close();
+    this.server = undefined;
+    this.listening = undefined;
+    if (this.socketPath && process.platform !== 'win32') {
+      fs.rm(this.socketPath, { force: true }, () => {});
+    }
+  }
+
+  /**
+   * 소켓 서버 시작 (최초 1회)
+   */
+  private listen(): Promise<void> {
+    if (this.listening) {
+      return this.listening;
+    }
+
+    const name = `cca-permission-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+    this.socketPath = process.platform === 'win32'
+      ? `\\\\.\\pipe\\${name}`
+      : path.join(os.tmpdir(), `${name}.sock`);
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+    this.listening = new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.socketPath, () => {
+        logDebug('Permission broker listening on', this.socketPath);
+        resolve();
+      });
+    });
+    this.listening.catch(() => {
+      this.listening = undefined;
+    });
+
+    return this.listening;
+  }
+
+  /**
+   * MCP 서버 연결 처리 (연결당 요청 1개)
+   */
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) {
+        return;
+      }
+
+      const line = buffer.slice(0, newline);
+      buffer = '';
+
+      void this.handleRequest(line).then((response) => {
+        socket.end(`${JSON.stringify(response)}\n`);
+      });
+    });
+    socket.on('error', (err) => logDebugError('Permission broker socket error:', err));
+  }
+
+  /**
+   * 권한 요청을 채널의 처리 함수로 전달
+   * 채널이 없거나 처리 함수가 없으면 거부
+   */
+  private async handleRequest(line: string): Promise<BrokerResponseMessage> {
+    try {
+      const message = JSON.parse(line) as BrokerRequestMessage;
+      const channel = this.channels.get(message.channelId);
+      if (!channel?.handler) {
+        return { decision: 'deny' };
+      }
+
+      const decision = await channel.handler({
+        cli: channel.cli,
+        toolName: message.toolName,
+        input: message.input ?? {},
+      });
+      return { decision };
+    } catch (error) {
+      logDebugError('Failed to handle permission request:', error);
+      return { decision: 'deny' };
+    }
+  }
+}
+
+/**
+ * 권한 요청 브로커 싱글톤 인스턴스
+ */
+export const permissionBroker = new PermissionBroker();
@@ -0,0 +1,200 @@
+/**
+ * 로컬 MCP stdio 권한 서버
+ *
+ * Claude CLI가 --mcp-config로 실행하는 독립 프로세스입니다.
+ * `approve` 도구 호출을 받으면 로컬 소켓으로 확장(PermissionBroker)에 권한 요청을 전달하고,
+ * 채팅에서 내려진 결정을 Claude --permission-prompt-tool 응답 형식으로 반환합니다.
+ *
+ * stdout은 MCP 프로토콜 전용이므로 이 파일에서는 콘솔 출력을 사용하지 않습니다.
+ */
+
+import * as net from 'net';
+import {
+  BrokerRequestMessage,
+  BrokerResponseMessage,
+  PERMISSION_CHANNEL_ENV,
+  PERMISSION_SOCKET_ENV,
+} from './permissionBroker';
+
+/**
+ * 지원하는 MCP 프로토콜 버전
+ */
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+/**
+ * MCP JSON-RPC 메시지
+ */
+interface McpMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * approve 도구 입력 (Claude --permission-prompt-tool 규격)
+ */
+interface ApproveInput {
+  tool_name: string;
+  input: Record<string, unknown>;
+  tool_use_id?: string;
+}
+
+/**
+ * approve 도구 정의
+ */
+const APPROVE_TOOL = {
+  name: 'approve',
+  description: 'Ask the user in VS Code chat whether a tool call may run.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool_name: { type: 'string' },
+      input: { type: 'object' },
+      tool_use_id: { type: 'string' },
+    },
+    required: ['tool_name', 'input'],
+  },
+};
+
+/**
+ * MCP 메시지 전송
+ */
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+/**
+ * 브로커에 권한 요청 후 결정 대기
+ */
+function requestDecision(toolName: string, input: Record<string, unknown>): Promise<BrokerResponseMessage> {
+  const socketPath = process.env[PERMISSION_SOCKET_ENV];
+  const channelId = process.env[PERMISSION_CHANNEL_ENV];
+
+  return new Promise((resolve) => {
+    if (!socketPath || !channelId) {
+      resolve({ decision: 'deny' });
+      return;
+    }
+
+    const socket = net.connect(socketPath);
+    let buffer = '';
+
+    socket.on('connect', () => {
+      const request: BrokerRequestMessage = { channelId, toolName, input };
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+    });
+    socket.on('end', () => {
+      try {
+        resolve(JSON.parse(buffer.trim()) as BrokerResponseMessage);
+      } catch {
+        resolve({ decision: 'deny' });
+      }
+    });
+    socket.on('error', () => resolve({ decision: 'deny' }));
+  });
+}
+
+/**
+ * 거부 응답 JSON 문자열
+ */
+const DENY_RESPONSE = JSON.stringify({ behavior: 'deny', message: 'The user denied this tool call in VS Code chat.' });
+
+/**
+ * approve 도구 호출 처리
+ * 인자가 없거나 잘못된 경우에도 응답하도록 거부로 처리
+ * @returns Claude --permission-prompt-tool 응답 JSON 문자열
+ */
+async function handleApprove(args: Partial<ApproveInput>): Promise<string> {
+  if (typeof args.tool_name !== 'string') {
+    return DENY_RESPONSE;
+  }
+
+  try {
+    const { decision } = await requestDecision(args.tool_name, args.input ?? {});
+    if (decision === 'allow' || decision === 'always') {
+      return JSON.stringify({ behavior: 'allow', updatedInput: args.input ?? {} });
+    }
+  } catch {
+    // 브로커 요청 실패 시 거부
+  }
+  return DENY_RESPONSE;
+}
+
+/**
+ * MCP 요청 처리
+ */
+async function handleMessage(message: McpMessage): Promise<void> {
+  // 알림은 응답 불필요
+  if (message.id === undefined) {
+    return;
+  }
+
+  switch (message.method) {
+    case 'initialize':
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'cca-permission', version: '1.0.0' },
+        },
+      });
+      break;
+
+    case 'tools/list':
+      send({ id: message.id, result: { tools: [APPROVE_TOOL] } });
+      break;
+
+    case 'tools/call': {
+      const params = message.params ?? {};
+      if (params.name !== APPROVE_TOOL.name) {
+        send({ id: message.id, error: { code: -32602, message: `Unknown tool: ${String(params.name)}` } });
+        break;
+      }
+      const text = await handleApprove((params.arguments ?? {}) as Partial<ApproveInput>);
+      send({ id: message.id, result: { content: [{ type: 'text', text }] } });
+      break;
+    }
+
+    case 'ping':
+      send({ id: message.id, result: {} });
+      break;
+
+    default:
+      send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+  }
+}
+
+/**
+ * stdin 라인 단위 처리
+ */
+function main(): void {
+  let buffer = '';
+
+  process.stdin.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    // 마지막 불완전한 라인은 버퍼에 유지
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        void handleMessage(JSON.parse(line) as McpMessage);
+      } catch {
+        // JSON 파싱 실패는 무시
+      }
+    }
+  });
+  process.stdin.on('end', () => process.exit(0));
+}
+
+if (require.main === module) {
+  main();
+}
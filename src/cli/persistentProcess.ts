@@ -0,0 +1,250 @@
+/**
+ * 장기 실행 CLI 프로세스 관리
+ *
+ * stdin/stdout으로 NDJSON 메시지를 주고받는 CLI 프로세스를 유지하고,
+ * 세션 ID 단위로 풀링하여 후속 턴에서 재사용합니다.
+ * 유휴 시간이 초과된 프로세스는 자동으로 정리됩니다.
+ */
+
+import { ChildProcess } from 'child_process';
+import {
+  killProcessTree,
+  logDebug,
+  logDebugError,
+  normalizeWindowsDriveLetter,
+  SPAWN_DETACHED,
+  spawnCli,
+} from './spawnCliRunner';
+
+/**
+ * 장기 실행 프로세스 생성 옵션
+ */
+export interface PersistentProcessOptions {
+  /** 실행 파일 경로 (resolveExecutable로 확인한 경로) */
+  command: string;
+  /** 인자 배열 (셸을 거치지 않으므로 이스케이프 불필요) */
+  args: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env?: Record<string, string>;
+  /** 작업 디렉토리 */
+  cwd?: string;
+  /** 프로세스 재사용 가능 여부 판단용 서명 (인자가 달라지면 재생성) */
+  signature: string;
+  /** 프로세스 종료 시 정리 작업 */
+  onClose?: () => void;
+}
+
+/**
+ * stdout 라인 리스너
+ * @param line - 개행 단위로 분리된 stdout 라인
+ */
+export type LineListener = (line: string) => void;
+
+/**
+ * 프로세스 종료 리스너
+ * @param exitCode - 종료 코드
+ * @param stderr - 누적된 stderr 내용
+ */
+export type ExitListener = (exitCode: number | null, stderr: string) => void;
+
+/**
+ * stdin/stdout 기반 장기 실행 CLI 프로세스
+ */
+export class PersistentProcess {
+  /** 재사용 가능 여부 판단용 서명 */
+  readonly signature: string;
+
+  private readonly childProcess: ChildProcess;
+  private buffer = '';
+  private stderr = '';
+  private exited = false;
+  private lineListener?: LineListener;
+  private exitListener?: ExitListener;
+  private readonly onClose?: () => void;
+
+  constructor(options: PersistentProcessOptions) {
+    this.signature = options.signature;
+    this.onClose = options.onClose;
+
+    logDebug('Persistent command:', options.command);
+    logDebug('Persistent args:', JSON.stringify(options.args, null, 2));
+
+    this.childProcess = spawnCli(options.command, options.args, {
+      cwd: normalizeWindowsDriveLetter(options.cwd || process.cwd()),
+      env: { ...process.env, ...options.env },
+      detached: SPAWN_DETACHED, // 종료 시 CLI가 실행한 하위 프로세스까지 그룹 단위로 종료
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    this.childProcess.stdout?.on('data', (chunk: Buffer) => this.handleStdout(chunk));
+    this.childProcess.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      this.stderr += text;
+      logDebugError('[persistent stderr]', text);
+    });
+    this.childProcess.stdin?.on('error', (err) => {
+      logDebugError('Persistent stdin error:', err);
+    });
+    this.childProcess.on('close', (exitCode) => this.handleExit(exitCode));
+    this.childProcess.on('error', (err) => {
+      this.stderr += err.message;
+      this.handleExit(null);
+    });
+  }
+
+  /**
+   * 프로세스 생존 여부
+   */
+  get alive(): boolean {
+    return !this.exited;
+  }
+
+  /**
+   * stdout 라인 리스너 설정 (현재 턴에서만 사용)
+   */
+  setLineListener(listener: LineListener | undefined): void {
+    this.lineListener = listener;
+  }
+
+  /**
+   * 프로세스 종료 리스너 설정 (현재 턴에서만 사용)
+   */
+  setExitListener(listener: ExitListener | undefined): void {
+    this.exitListener = listener;
+  }
+
+  /**
+   * stdin으로 JSON 메시지 한 줄 전송
+   * @param message - 전송할 메시지 객체
+   * @returns 전송 성공 여부
+   */
+  send(message: unknown): boolean {
+    if (this.exited || !this.childProcess.stdin?.writable) {
+      return false;
+    }
+    this.childProcess.stdin.write(`${JSON.stringify(message)}\n`);
+    return true;
+  }
+
+  /**
+   * 프로세스 트리 종료 (stdin을 닫고 SIGTERM 전송, 유예 시간 후 SIGKILL)
+   * @param killGraceMs - SIGKILL까지 유예 시간 (밀리초)
+   */
+  dispose(killGraceMs?: number): void {
+    if (this.exited) {
+      return;
+    }
+    this.childProcess.stdin?.end();
+    killProcessTree(this.childProcess, killGraceMs);
+  }
+
+  /**
+   * stdout 청크를 라인 단위로 분리하여 리스너에 전달
+   */
+  private handleStdout(chunk: Buffer): void {
+    this.buffer += chunk.toString();
+    const lines = this.buffer.split('\n');
+    // 마지막 불완전한 라인은 버퍼에 유지
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        this.lineListener?.(line);
+      }
+    }
+  }
+
+  /**
+   * 프로세스 종료 처리
+   */
+  private handleExit(exitCode: number | null): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+
+    if (this.buffer.trim()) {
+      this.lineListener?.(this.buffer);
+      this.buffer = '';
+    }
+
+    logDebug('Persistent process exited with code:', exitCode);
+    this.onClose?.();
+    this.exitListener?.(exitCode, this.stderr);
+  }
+}
+
+/**
+ * 풀 항목
+ */
+interface PoolEntry {
+  /** 장기 실행 프로세스 */
+  process: PersistentProcess;
+  /** 유휴 타이머 */
+  idleTimer: NodeJS.Timeout;
+}
+
+/**
+ * 세션 ID 기반 장기 실행 프로세스 풀
+ *
+ * 실행 중인 턴의 프로세스는 take()로 풀에서 꺼내 사용하고,
+ * 턴이 끝나면 release()로 반환하여 유휴 타이머를 시작합니다.
+ */
+export class PersistentProcessPool {
+  private readonly entries = new Map<string, PoolEntry>();
+
+  /**
+   * 풀에서 프로세스 꺼내기
+   * @param sessionId - CLI 세션 ID
+   * @returns 살아있는 프로세스 또는 undefined
+   */
+  take(sessionId: string): PersistentProcess | undefined {
+    const entry = this.entries.get(sessionId);
+    if (!entry) {
+      return undefined;
+    }
+
+    clearTimeout(entry.idleTimer);
+    this.entries.delete(sessionId);
+
+    return entry.process.alive ? entry.process : undefined;
+  }
+
+  /**
+   * 프로세스를 풀에 반환하고 유휴 타이머 시작
+   * @param sessionId - CLI 세션 ID
+   * @param process - 반환할 프로세스
+   * @param idleTimeoutMs - 유휴 타임아웃 (밀리초)
+   */
+  release(sessionId: string, process: PersistentProcess, idleTimeoutMs: number): void {
+    if (!process.alive) {
+      return;
+    }
+
+    // 동일 세션에 다른 프로세스가 있으면 정리
+    const existing = this.entries.get(sessionId);
+    if (existing && existing.process !== process) {
+      clearTimeout(existing.idleTimer);
+      existing.process.dispose();
+    }
+
+    const idleTimer = setTimeout(() => {
+      logDebug('Reaping idle persistent process for session:', sessionId);
+      this.entries.delete(sessionId);
+      process.dispose();
+    }, idleTimeoutMs);
+
+    this.entries.set(sessionId, { process, idleTimer });
+  }
+
+  /**
+   * 풀의 모든 프로세스 종료
+   */
+  dispose(): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.idleTimer);
+      entry.process.dispose();
+    }
+    this.entries.clear();
+  }
+}
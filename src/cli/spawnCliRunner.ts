@@ -2,19 +2,27 @@
  * Spawn 기반 CLI Runner
  *
  * child_process.spawn을 사용하여 크로스 플랫폼에서 CLI를 실행합니다.
- * shell: true 옵션으로 Windows의 .cmd 래퍼와 Unix 셸 스크립트를 모두 지원합니다.
+ * 실행 파일 경로를 미리 확인하여 셸 없이 argv 배열로 직접 실행하고,
+ * 프롬프트는 stdin으로 전달합니다. (Windows .cmd 래퍼만 셸을 거침)
  */
 
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, ChildProcess, SpawnOptions } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import {
   CliOptions,
   CliResult,
   StreamCallback,
-  StreamContent,
+  StreamEvent,
+  UsageEvent,
   CliRunner,
+  CliUsage,
+  CliBudget,
+  BudgetExceeded,
   InstallInfo,
   HealthGuidance,
   AgentInstructions,
+  CliCommand,
 } from './types';
 
 /**
@@ -29,7 +37,7 @@ function isDebugEnabled(): boolean {
  * 디버그 로그 출력 (디버그 모드일 때만)
  * @param args - 로그 메시지 및 인자
  */
-function logDebug(...args: unknown[]): void {
+export function logDebug(...args: unknown[]): void {
   if (isDebugEnabled()) {
     console.log('[CLI Debug]', ...args);
   }
@@ -39,7 +47,7 @@ function logDebug(...args: unknown[]): void {
  * 디버그 에러 로그 출력 (디버그 모드일 때만)
  * @param args - 에러 메시지 및 인자
  */
-function logDebugError(...args: unknown[]): void {
+export function logDebugError(...args: unknown[]): void {
   if (isDebugEnabled()) {
     console.error('[CLI Debug]', ...args);
   }
@@ -58,29 +66,107 @@ export function normalizeWindowsDriveLetter(path: string): string {
   return path;
 }
 
+/**
+ * 셸 인자 이스케이프 (플랫폼별 처리)
+ * shell: true일 때 줄바꿈 및 특수문자가 개별 명령으로 해석되지 않도록 처리
+ * @param arg - 이스케이프할 인자
+ * @returns 플랫폼에 맞게 이스케이프된 인자
+ */
+export function escapeShellArg(arg: string): string {
+  if (process.platform === 'win32') {
+    // Windows: 더블쿼트로 감싸고 내부 더블쿼트, 백슬래시, 특수문자 이스케이프
+    // 줄바꿈은 공백으로 치환 (cmd.exe는 줄바꿈을 쿼트 내에서도 명령 구분자로 처리)
+    const escaped = arg
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/[\r\n]+/g, ' ');
+    return `"${escaped}"`;
+  } else {
+    // Unix: 싱글쿼트로 감싸면 내부 문자가 그대로 전달됨
+    // 단, 싱글쿼트 자체만 이스케이프 필요
+    return `'${arg.replace(/'/g, "'\\''")}'`;
+  }
+}
+
+/**
+ * 취소 시 SIGTERM 이후 SIGKILL까지 기다리는 기본 유예 시간 (밀리초)
+ */
+export const DEFAULT_KILL_GRACE_MS = 3000;
+
+/**
+ * 새 프로세스 그룹으로 실행할지 여부
+ * Unix에서는 detached로 실행해야 CLI와 CLI가 실행한 하위 프로세스까지 그룹 단위로 종료 가능
+ */
+export const SPAWN_DETACHED = process.platform !== 'win32';
+
+/**
+ * 프로세스 트리 종료
+ * Unix는 프로세스 그룹(음수 PID)에 SIGTERM을 보내고 유예 시간 후 SIGKILL로 강제 종료하며,
+ * Windows는 taskkill /T로 하위 프로세스까지 종료하고 유예 시간 후 /F로 강제 종료
+ * @param childProcess - 종료할 프로세스 (SPAWN_DETACHED로 실행된 프로세스)
+ * @param graceMs - 강제 종료까지 유예 시간 (밀리초)
+ */
+export function killProcessTree(childProcess: ChildProcess, graceMs = DEFAULT_KILL_GRACE_MS): void {
+  const pid = childProcess.pid;
+  if (pid === undefined) {
+    return;
+  }
+
+  const signalTree = (force: boolean) => {
+    try {
+      if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(pid), '/T', ...(force ? ['/F'] : [])], { stdio: 'ignore' })
+          .on('error', (err) => logDebugError('taskkill failed:', err));
+      } else {
+        process.kill(-pid, force ? 'SIGKILL' : 'SIGTERM');
+      }
+    } catch (error) {
+      // 이미 종료된 프로세스 그룹 (ESRCH)
+      logDebug('Failed to signal process tree:', pid, error);
+    }
+  };
+
+  logDebug('Terminating process tree:', pid);
+  signalTree(false);
+
+  // 그룹 내 하위 프로세스가 SIGTERM을 무시하거나 CLI만 먼저 종료될 수 있으므로 유예 후 강제 종료
+  const killTimer = setTimeout(() => signalTree(true), graceMs);
+  killTimer.unref();
+}
+
 /**
  * spawn을 사용하여 명령을 안전하게 실행
- * @param command - 실행할 명령어
+ * @param command - 실행할 명령어 (PATH 명령어 또는 resolveExecutable로 확인한 경로)
  * @param args - 명령어 인자 배열
  * @param timeoutMs - 타임아웃 (밀리초)
+ * @param env - process.env에 덮어쓸 환경 변수
  * @returns stdout 출력
  */
-export function executeCommand(command: string, args: string[], timeoutMs: number): Promise<string> {
+export function executeCommand(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  env?: Record<string, string>
+): Promise<string> {
   return new Promise((resolve, reject) => {
-    const childProcess = spawn(command, args, { shell: true });
+    const childProcess = spawnCli(command, args, {
+      env: { ...process.env, ...env },
+      detached: SPAWN_DETACHED,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
     let stdout = '';
     let stderr = '';
 
     const timer = setTimeout(() => {
-      childProcess.kill('SIGTERM');
+      killProcessTree(childProcess);
       reject(new Error('Command execution timed out'));
     }, timeoutMs);
 
-    childProcess.stdout.on('data', (data) => {
+    childProcess.stdout?.on('data', (data) => {
       stdout += data.toString();
     });
 
-    childProcess.stderr.on('data', (data) => {
+    childProcess.stderr?.on('data', (data) => {
       stderr += data.toString();
     });
 
@@ -100,14 +186,294 @@ export function executeCommand(command: string, args: string[], timeoutMs: numbe
   });
 }
 
+/**
+ * 명령어에 경로가 포함되어 있는지 확인 (PATH 검색 대상이 아님)
+ */
+function isPathCommand(command: string): boolean {
+  return path.isAbsolute(command) || command.includes('/') || command.includes('\\');
+}
+
+/**
+ * PATH에서 실행 파일 경로 검색 (which/where)
+ * 경로가 포함된 명령어(CCA.<agent>.executablePath 등)는 실행 가능 여부만 확인
+ * @param command - 명령어 이름 또는 경로
+ * @returns 첫 번째로 검색된 실행 파일 경로
+ */
+export async function findExecutable(command: string): Promise<string> {
+  if (isPathCommand(command)) {
+    await fs.promises.access(command, fs.constants.X_OK);
+    return command;
+  }
+
+  const whichCmd = process.platform === 'win32' ? 'where' : 'which';
+  const output = await executeCommand(whichCmd, [command], 10000);
+  const candidates = output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  // Windows의 where는 확장자 없는 셸 스크립트(npm 래퍼)도 반환하므로 실행 가능한 확장자를 우선
+  const executable = process.platform === 'win32'
+    ? candidates.find((candidate) => /\.(exe|cmd|bat)$/i.test(candidate)) ?? candidates[0]
+    : candidates[0];
+  if (!executable) {
+    throw new Error(`${command} not found in PATH`);
+  }
+  return executable;
+}
+
+/**
+ * 명령어별 실행 파일 경로 캐시
+ */
+const executableCache = new Map<string, string>();
+
+/**
+ * 실행 파일 경로 확인 (최초 1회 검색 후 캐시)
+ * 경로가 포함된 명령어는 그대로 사용하고, 검색에 실패하면 명령어 이름을 그대로 반환하여
+ * spawn 단계에서 ENOENT 오류로 보고되도록 함
+ * @param command - 명령어 이름 또는 경로
+ * @returns 실행 파일 경로
+ */
+export async function resolveExecutable(command: string): Promise<string> {
+  if (isPathCommand(command)) {
+    return command;
+  }
+
+  const cached = executableCache.get(command);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const executable = await findExecutable(command);
+    executableCache.set(command, executable);
+    logDebug('Resolved executable:', command, '->', executable);
+    return executable;
+  } catch (error) {
+    logDebugError('Failed to resolve executable:', command, error);
+    return command;
+  }
+}
+
+/**
+ * CLI 프로세스 실행 (셸 없이 argv 배열로 직접 실행)
+ * Windows의 .cmd/.bat 래퍼는 셸 없이 실행할 수 없으므로 이 경우에만 셸을 거치고 인자를 이스케이프
+ * @param executable - resolveExecutable로 확인한 실행 파일 경로
+ * @param args - 인자 배열 (이스케이프 불필요)
+ * @param options - spawn 옵션 (shell 제외)
+ * @returns 실행된 프로세스
+ */
+export function spawnCli(executable: string, args: string[], options: Omit<SpawnOptions, 'shell'>): ChildProcess {
+  if (process.platform === 'win32' && /\.(cmd|bat)$/i.test(executable)) {
+    return spawn(escapeShellArg(executable), args.map((arg) => escapeShellArg(arg)), { ...options, shell: true });
+  }
+  return spawn(executable, args, { ...options, shell: false });
+}
+
 /**
  * 스트리밍 파싱 결과 (세션 ID 포함)
  */
 export interface ParseResult {
-  /** 스트리밍 콘텐츠 */
-  content: StreamContent | null;
+  /** 스트리밍 이벤트 (한 라인에 여러 콘텐츠 블록이 있을 수 있음) */
+  events: StreamEvent[];
   /** 추출된 세션 ID (있는 경우) */
   sessionId?: string;
+  /** 실행을 실패로 처리할 CLI 보고 에러 (종료 코드가 0이어도 실패) */
+  failure?: string;
+}
+
+/**
+ * 스트리밍 이벤트에서 실행 사용량 수집
+ * 여러 usage 이벤트의 토큰/비용은 합산하고, CLI가 실행 시간을 보고하지 않으면 경과 시간을 사용
+ */
+export class UsageCollector {
+  private readonly startedAt = Date.now();
+  private usage?: Omit<CliUsage, 'durationMs'> & { durationMs?: number };
+  private model?: string;
+
+  /**
+   * 이벤트 수집 (usage, session 이벤트만 사용)
+   * @param event - 스트리밍 이벤트
+   */
+  collect(event: StreamEvent): void {
+    if (event.type === 'session' && event.model) {
+      this.model = event.model;
+      return;
+    }
+    if (event.type !== 'usage' || event.partial) {
+      return;
+    }
+    if (event.model) {
+      this.model = event.model;
+    }
+
+    const sum = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+    const current = this.usage ?? {};
+    this.usage = {
+      inputTokens: sum(current.inputTokens, event.inputTokens),
+      outputTokens: sum(current.outputTokens, event.outputTokens),
+      cachedInputTokens: sum(current.cachedInputTokens, event.cachedInputTokens),
+      costUsd: sum(current.costUsd, event.costUsd),
+      durationMs: sum(current.durationMs, event.durationMs),
+    };
+  }
+
+  /**
+   * 수집된 사용량
+   */
+  get result(): CliUsage {
+    return {
+      ...this.usage,
+      durationMs: this.usage?.durationMs ?? Date.now() - this.startedAt,
+      model: this.model,
+    };
+  }
+}
+
+/**
+ * 라인 파서 (실행 단위로 생성되므로 실행 중 상태를 가질 수 있음)
+ * @param line - ANSI 제거된 출력 라인
+ * @returns 파싱 결과
+ */
+export type LineParser = (line: string) => ParseResult;
+
+/**
+ * 도구 실행 시간 측정 콜백 래퍼
+ * tool_start 시각을 기록해 두었다가 실행 시간이 없는 tool_end에 채워 넣음
+ * @param onContent - 원본 스트리밍 콜백
+ * @returns 실행 시간이 보강된 스트리밍 콜백
+ */
+export function withToolDurations(onContent: StreamCallback): StreamCallback {
+  const startedAt = new Map<string, number>();
+
+  return (event) => {
+    if (event.type === 'tool_start' && event.toolId) {
+      startedAt.set(event.toolId, Date.now());
+    } else if (event.type === 'tool_end' && event.toolId) {
+      const start = startedAt.get(event.toolId);
+      startedAt.delete(event.toolId);
+      if (start !== undefined && event.durationMs === undefined) {
+        event = { ...event, durationMs: Date.now() - start };
+      }
+    }
+    onContent(event);
+  };
+}
+
+/**
+ * 실행 예산 감시자
+ * 스트리밍 중 usage 이벤트를 누적하여 한도를 넘으면 실행을 중단(abort)하고,
+ * 중단된 실행 결과에 예산 초과 정보를 기록
+ */
+export class BudgetGuard {
+  private readonly controller = new AbortController();
+  private readonly usage = new UsageCollector();
+  private readonly onAbort = () => this.controller.abort();
+  private exceeded?: BudgetExceeded;
+  /** 진행 중인 턴의 중간 누적 사용량 (최종 usage 이벤트가 오면 제거) */
+  private partial?: UsageEvent;
+
+  /**
+   * @param budget - 실행 예산 (없으면 감시하지 않음)
+   * @param abortSignal - 사용자 취소 시그널
+   */
+  constructor(
+    private readonly budget: CliBudget | undefined,
+    private readonly abortSignal?: AbortSignal
+  ) {
+    if (abortSignal?.aborted) {
+      this.controller.abort();
+    }
+    abortSignal?.addEventListener('abort', this.onAbort);
+  }
+
+  /**
+   * 사용자 취소 또는 예산 초과 시 abort되는 시그널
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 스트리밍 콜백 래퍼 (usage 이벤트마다 예산 확인)
+   * 중간 사용량(partial)으로 턴 도중에도 한도를 넘으면 실행 중단
+   * @param onContent - 원본 스트리밍 콜백
+   * @returns 예산을 감시하는 스트리밍 콜백
+   */
+  watch(onContent: StreamCallback): StreamCallback {
+    return (event) => {
+      onContent(event);
+      this.usage.collect(event);
+      if (event.type === 'usage') {
+        this.partial = event.partial ? event : undefined;
+        this.check(this.usage.result);
+      }
+    };
+  }
+
+  /**
+   * 실행 결과에 예산 초과 정보 반영 및 리스너 정리
+   * @param result - 실행 결과
+   * @returns 예산 초과로 중단된 경우 실패로 변환된 결과 (이미 완료된 턴은 성공 유지)
+   */
+  apply(result: CliResult): CliResult {
+    this.abortSignal?.removeEventListener('abort', this.onAbort);
+    if (!this.exceeded) {
+      return result;
+    }
+    // 최종 사용량에서야 한도 초과가 확인된 턴은 이미 완료되었으므로 실패로 바꾸지 않음
+    if (result.success) {
+      return { ...result, budgetExceeded: this.exceeded };
+    }
+    const { limit, used, max } = this.exceeded;
+    const format = (value: number) => (limit === 'cost' ? `$${value.toFixed(4)}` : `${value} tokens`);
+    return {
+      ...result,
+      success: false,
+      error: `Budget exceeded: used ${format(used)} of the ${format(max)} ${limit} limit`,
+      budgetExceeded: this.exceeded,
+      cancelled: false,
+    };
+  }
+
+  /**
+   * 누적 사용량이 한도를 넘었는지 확인하고 넘었으면 실행 중단
+   */
+  private check(usage: CliUsage): void {
+    if (!this.budget || this.exceeded || this.abortSignal?.aborted) {
+      return;
+    }
+
+    // 완료된 턴의 사용량에 진행 중인 턴의 중간 사용량을 더해 확인
+    const { maxCostUsd, maxTokens } = this.budget;
+    const partial = this.partial;
+    const tokens = (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0) +
+      (partial?.inputTokens ?? 0) + (partial?.outputTokens ?? 0);
+    const costUsd = usage.costUsd === undefined && partial?.costUsd === undefined
+      ? undefined
+      : (usage.costUsd ?? 0) + (partial?.costUsd ?? 0);
+    if (maxCostUsd !== undefined && costUsd !== undefined && costUsd > maxCostUsd) {
+      this.exceeded = { limit: 'cost', used: costUsd, max: maxCostUsd };
+    } else if (maxTokens !== undefined && tokens > maxTokens) {
+      this.exceeded = { limit: 'tokens', used: tokens, max: maxTokens };
+    }
+
+    if (this.exceeded) {
+      logDebug('Budget exceeded, aborting run:', this.exceeded);
+      this.controller.abort();
+    }
+  }
+}
+
+/**
+ * 실행 준비 결과
+ * 실행(run) 단위로 필요한 추가 인자와 정리 작업을 정의
+ */
+export interface RunPreparation {
+  /** buildCliOptions 결과 뒤에 추가할 인자 */
+  extraArgs?: string[];
+  /** 프로세스 종료 후 정리 작업 */
+  cleanup?: () => void;
 }
 
 /**
@@ -125,8 +491,14 @@ interface ProcessContext {
   buffer: { value: string };
   /** 추출된 세션 ID */
   extractedSessionId: { value?: string };
+  /** CLI가 보고한 실행 실패 (처음 보고된 에러 유지) */
+  failure: { value?: string };
+  /** 사용량 수집기 */
+  usage: UsageCollector;
   /** 스트리밍 콜백 */
   onContent: StreamCallback;
+  /** 실행 단위 라인 파서 */
+  parseLine: LineParser;
   /** abort 시그널 */
   abortSignal?: AbortSignal;
   /** abort 핸들러 */
@@ -171,13 +543,13 @@ export abstract class SpawnCliRunner implements CliRunner {
   /**
    * CLI 실행 옵션 빌드
    * @param options - 옵션 객체
-   * @returns CLI 명령어와 추가 인자
+   * @returns CLI 명령어, 추가 인자 및 환경 변수
    */
   protected abstract buildCliOptions(options?: {
     resumeSessionId?: string;
     agentInstructions?: AgentInstructions;
     prompt?: string;
-  }): { command: string; args: string[] };
+  }): CliCommand;
 
   /**
    * 스트리밍 라인 파싱 (세션 ID 추출 포함)
@@ -186,10 +558,47 @@ export abstract class SpawnCliRunner implements CliRunner {
    */
   protected abstract parseLineWithSession(line: string): ParseResult;
 
+  /**
+   * 텍스트 출력 여부
+   * true이면 stdout 라인을 trim하지 않고 빈 줄도 파서에 전달 (마크다운 들여쓰기/문단 유지)
+   */
+  protected readonly textOutput: boolean = false;
+
+  /**
+   * 실행 단위 라인 파서 생성
+   * 기본 구현은 상태 없이 parseLineWithSession을 사용하며,
+   * 여러 라인에 걸친 상태가 필요한 Runner는 재정의
+   * @returns 라인 파서
+   */
+  protected createLineParser(): LineParser {
+    return (line) => this.parseLineWithSession(line);
+  }
+
+  /**
+   * stdin으로 전달할 입력 (프롬프트 및 에이전트 지침)
+   * stdin 입력을 지원하는 CLI는 재정의하고 buildCliOptions에서 프롬프트 인자를 생략
+   * 기본 구현은 stdin을 사용하지 않음 (프롬프트를 인자로 전달)
+   * @param _options - 프롬프트 및 에이전트 지침
+   * @returns stdin 입력 또는 undefined
+   */
+  protected getStdinInput(_options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * 실행 준비 (실행 단위 리소스 생성)
+   * 기본 구현은 추가 작업 없음
+   * @param _options - 실행 옵션
+   * @returns 실행 준비 결과
+   */
+  protected async prepareRun(_options: CliOptions): Promise<RunPreparation> {
+    return {};
+  }
+
   /**
    * ANSI escape 코드 제거
    */
-  private cleanAnsi(text: string): string {
+  protected cleanAnsi(text: string): string {
     return text.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '');
   }
 
@@ -208,18 +617,24 @@ export abstract class SpawnCliRunner implements CliRunner {
    */
   private processLine(cleanLine: string, context: ProcessContext): void {
     try {
-      const parseResult = this.parseLineWithSession(cleanLine);
+      const parseResult = context.parseLine(cleanLine);
 
       // 세션 ID 추출
       if (parseResult.sessionId && !context.extractedSessionId.value) {
         context.extractedSessionId.value = parseResult.sessionId;
       }
 
-      if (parseResult.content) {
-        if (parseResult.content.type === 'text') {
-          context.fullContent.value += parseResult.content.content;
+      // 실행 실패 보고 (이후 보고는 같은 실패의 요약이므로 첫 에러 유지)
+      if (parseResult.failure && !context.failure.value) {
+        context.failure.value = parseResult.failure;
+      }
+
+      for (const event of parseResult.events) {
+        if (event.type === 'text') {
+          context.fullContent.value += event.content;
         }
-        context.onContent(parseResult.content);
+        context.usage.collect(event);
+        context.onContent(event);
       }
     } catch (error) {
       // JSON 파싱 실패는 무시하고 디버그 로그만 출력
@@ -242,6 +657,12 @@ export abstract class SpawnCliRunner implements CliRunner {
     buffer.value = lines.pop() || '';
 
     for (const line of lines) {
+      // 텍스트 출력 CLI의 stdout은 빈 줄과 들여쓰기를 유지 (줄 끝 \r만 제거)
+      if (this.textOutput && !parseJsonOnly) {
+        this.processLine(this.cleanAnsi(line).replace(/\r$/, ''), context);
+        continue;
+      }
+
       const cleanLine = this.cleanAnsi(line).trim();
       if (!cleanLine) {
         continue;
@@ -274,8 +695,8 @@ export abstract class SpawnCliRunner implements CliRunner {
   private processRemainingBuffer(context: ProcessContext): void {
     // stdout 버퍼 처리
     if (context.buffer.value.trim()) {
-      const cleanLine = this.cleanAnsi(context.buffer.value).trim();
-      this.processLine(cleanLine, context);
+      const cleanLine = this.cleanAnsi(context.buffer.value);
+      this.processLine(this.textOutput ? cleanLine.replace(/\r$/, '') : cleanLine.trim(), context);
     }
 
     // stderr 버퍼 처리 (JSON 라인인 경우만)
@@ -310,11 +731,22 @@ export abstract class SpawnCliRunner implements CliRunner {
       logDebugError('stderr content:', context.stderrContent.value);
     }
 
-    if (exitCode === 0) {
+    if (context.abortSignal?.aborted) {
+      // 사용자 취소로 종료된 경우 종료 코드와 관계없이 취소로 보고
+      context.resolve({
+        success: false,
+        content: context.fullContent.value,
+        error: 'Interrupted by user',
+        sessionId: context.extractedSessionId.value,
+        usage: context.usage.result,
+        cancelled: true,
+      });
+    } else if (exitCode === 0 && !context.failure.value) {
       context.resolve({
         success: true,
         content: context.fullContent.value,
         sessionId: context.extractedSessionId.value,
+        usage: context.usage.result,
       });
     } else {
       logDebugError('Process failed with exit code:', exitCode);
@@ -324,8 +756,9 @@ export abstract class SpawnCliRunner implements CliRunner {
       context.resolve({
         success: false,
         content: context.fullContent.value,
-        error: `Process exited with code ${exitCode}${errorDetails}`,
+        error: context.failure.value ?? `Process exited with code ${exitCode}${errorDetails}`,
         sessionId: context.extractedSessionId.value,
+        usage: context.usage.result,
       });
     }
   }
@@ -341,6 +774,7 @@ export abstract class SpawnCliRunner implements CliRunner {
       content: context.fullContent.value,
       error: err.message,
       sessionId: context.extractedSessionId.value,
+      usage: context.usage.result,
     });
   }
 
@@ -348,9 +782,12 @@ export abstract class SpawnCliRunner implements CliRunner {
    * 프로세스 이벤트 핸들러 등록
    */
   private registerProcessHandlers(childProcess: ChildProcess, context: ProcessContext): void {
-    // abort 시그널 처리
+    // abort 시그널 처리 (리스너 등록 전에 이미 취소된 경우 즉시 종료)
     if (context.abortSignal) {
-      context.abortSignal.addEventListener('abort', context.abortHandler);
+      context.abortSignal.addEventListener('abort', context.abortHandler, { once: true });
+      if (context.abortSignal.aborted) {
+        context.abortHandler();
+      }
     }
 
     // stdout 스트리밍 처리
@@ -379,52 +816,54 @@ export abstract class SpawnCliRunner implements CliRunner {
   }
 
   /**
-   * 셸 인자 이스케이프 (플랫폼별 처리)
-   * shell: true일 때 줄바꿈 및 특수문자가 개별 명령으로 해석되지 않도록 처리
-   * @param arg - 이스케이프할 인자
-   * @returns 플랫폼에 맞게 이스케이프된 인자
+   * CLI 실행 (스트리밍, 예산 초과 시 중단)
    */
-  private escapeShellArg(arg: string): string {
-    if (process.platform === 'win32') {
-      // Windows: 더블쿼트로 감싸고 내부 더블쿼트, 백슬래시, 특수문자 이스케이프
-      // 줄바꿈은 공백으로 치환 (cmd.exe는 줄바꿈을 쿼트 내에서도 명령 구분자로 처리)
-      const escaped = arg
-        .replace(/\\/g, '\\\\')
-        .replace(/"/g, '\\"')
-        .replace(/[\r\n]+/g, ' ');
-      return `"${escaped}"`;
-    } else {
-      // Unix: 싱글쿼트로 감싸면 내부 문자가 그대로 전달됨
-      // 단, 싱글쿼트 자체만 이스케이프 필요
-      return `'${arg.replace(/'/g, "'\\''")}'`;
-    }
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const budget = new BudgetGuard(options.budget, options.abortSignal);
+    const result = await this.runProcess({ ...options, abortSignal: budget.signal }, budget.watch(onContent));
+    return budget.apply(result);
   }
 
   /**
-   * CLI 실행 (스트리밍)
+   * CLI 프로세스 실행 (스트리밍)
    */
-  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
-    const { prompt, agentInstructions, abortSignal, resumeSessionId, cwd } = options;
-    const { command, args } = this.buildCliOptions({ resumeSessionId, agentInstructions, prompt });
-
-    // shell: true 사용 시 모든 인자에 셸 이스케이프 적용 (줄바꿈, 특수문자, 공백 등 처리)
-    const allArgs = args.map((arg) => this.escapeShellArg(arg));
+  private async runProcess(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const { prompt, agentInstructions, abortSignal, resumeSessionId, cwd, killGraceMs } = options;
+    const { command, args, env } = this.buildCliOptions({ resumeSessionId, agentInstructions, prompt });
+    const stdinInput = this.getStdinInput({ agentInstructions, prompt });
+    const preparation = await this.prepareRun(options);
+    args.push(...(preparation.extraArgs ?? []));
+    const executable = await resolveExecutable(command);
+
+    // 실행 준비 중 취소된 경우 프로세스를 시작하지 않음
+    if (abortSignal?.aborted) {
+      preparation.cleanup?.();
+      return { success: false, content: '', error: 'Interrupted by user', cancelled: true };
+    }
 
     // 디버깅: 실제 실행되는 명령어 로깅 (환경 변수로 활성화)
-    logDebug('Command:', command);
-    logDebug('Args (raw):', JSON.stringify(args, null, 2));
-    logDebug('All Args (escaped):', JSON.stringify(allArgs, null, 2));
+    logDebug('Command:', executable);
+    logDebug('Args:', JSON.stringify(args, null, 2));
+    logDebug('Stdin input length:', stdinInput?.length ?? 0);
 
     return new Promise((resolve) => {
       const workingDir = normalizeWindowsDriveLetter(cwd || process.cwd());
-      
-      const childProcess: ChildProcess = spawn(command, allArgs, {
+      // error와 close 이벤트가 모두 발생해도 정리 작업과 결과 전달은 한 번만 수행
+      let settled = false;
+
+      // 셸 없이 직접 실행하므로 인자 이스케이프가 필요 없고, 프롬프트는 stdin으로 전달하여 인자 길이 제한을 피함
+      const childProcess: ChildProcess = spawnCli(executable, args, {
         cwd: workingDir,
-        env: process.env,
-        shell: true, // Windows .cmd 지원 및 PATH 명령어 탐색을 위해 shell: true 유지
-        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...env },
+        detached: SPAWN_DETACHED, // 취소 시 CLI와 하위 프로세스를 그룹 단위로 종료
+        stdio: [stdinInput === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
       });
 
+      if (stdinInput !== undefined) {
+        childProcess.stdin?.on('error', (err) => logDebugError('stdin error:', err));
+        childProcess.stdin?.end(stdinInput);
+      }
+
       // 프로세스 컨텍스트 생성
       const context: ProcessContext = {
         fullContent: { value: '' },
@@ -432,10 +871,20 @@ export abstract class SpawnCliRunner implements CliRunner {
         stderrBuffer: { value: '' },
         buffer: { value: '' },
         extractedSessionId: {},
-        onContent,
+        failure: {},
+        usage: new UsageCollector(),
+        onContent: withToolDurations(onContent),
+        parseLine: this.createLineParser(),
         abortSignal,
-        abortHandler: () => childProcess.kill('SIGTERM'),
-        resolve,
+        abortHandler: () => killProcessTree(childProcess, killGraceMs),
+        resolve: (result) => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          preparation.cleanup?.();
+          resolve(result);
+        },
       };
 
       // 이벤트 핸들러 등록
@@ -11,6 +11,13 @@ export interface AgentInstructions {
   content: string;
 }
 
+/**
+ * 에이전트 지침 전달 방식
+ * - native: CLI별 시스템 프롬프트 주입 수단 사용 (지원하지 않는 CLI는 prefix)
+ * - prefix: 사용자 프롬프트 앞에 <AgentInstructions> 블록으로 추가
+ */
+export type AgentInstructionsMode = 'native' | 'prefix';
+
 /**
  * CLI 실행 옵션
  */
@@ -23,32 +30,299 @@ export interface CliOptions {
   abortSignal?: AbortSignal;
   /** 재개할 CLI 세션 ID (resume 용도) */
   resumeSessionId?: string;
+  /** resumeSessionId를 복제한 새 세션으로 실행 (supportsForkSession이 true인 Runner만) */
+  forkSession?: boolean;
   /** 작업 디렉토리 (미지정 시 process.cwd() 사용) */
   cwd?: string;
+  /** 도구 실행 권한 요청 처리 함수 (미지정 시 권한이 필요한 도구는 거부됨) */
+  onPermissionRequest?: PermissionRequestHandler;
+  /** 실행 예산 (초과 시 실행 중단) */
+  budget?: CliBudget;
+  /** 취소 시 SIGTERM 이후 SIGKILL까지 유예 시간 (밀리초) */
+  killGraceMs?: number;
+}
+
+/**
+ * 실행 단위 예산 한도
+ */
+export interface CliBudget {
+  /** 최대 비용 (USD, 비용을 보고하는 CLI만 적용) */
+  maxCostUsd?: number;
+  /** 최대 토큰 수 (입력 + 출력) */
+  maxTokens?: number;
+}
+
+/**
+ * 에이전트별 예산 설정 (CCA.<agent>.budget)
+ */
+export interface BudgetConfig {
+  /** 턴당 최대 비용 (USD) */
+  maxCostUsdPerTurn?: number;
+  /** 세션당 최대 비용 (USD) */
+  maxCostUsdPerSession?: number;
+  /** 턴당 최대 토큰 수 */
+  maxTokensPerTurn?: number;
+  /** 세션당 최대 토큰 수 */
+  maxTokensPerSession?: number;
+  /** 턴당 최대 에이전트 턴 수 (Claude --max-turns) */
+  maxTurns?: number;
+}
+
+/**
+ * CLI 실행 명령 (실행 파일, 인자, 추가 환경 변수)
+ */
+export interface CliCommand {
+  /** 실행할 명령어 또는 실행 파일 경로 */
+  command: string;
+  /** 명령어 인자 */
+  args: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env?: Record<string, string>;
+}
+
+/**
+ * 에이전트별 실행 파일 설정 (CCA.<agent>.executablePath, extraArgs, env)
+ */
+export interface LaunchConfig {
+  /** 실행 파일 경로 또는 명령어 (미설정 시 기본 CLI 이름) */
+  executablePath?: string;
+  /** 생성된 CLI 인자 앞에 추가할 인자 */
+  extraArgs: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env: Record<string, string>;
+}
+
+/**
+ * 예산 초과 정보
+ */
+export interface BudgetExceeded {
+  /** 초과한 한도 종류 */
+  limit: 'cost' | 'tokens';
+  /** 사용량 */
+  used: number;
+  /** 한도 */
+  max: number;
+}
+
+/**
+ * 도구 실행 권한 결정
+ * - allow: 이번 한 번 허용
+ * - deny: 거부
+ * - always: 허용하고 이후 같은 도구는 묻지 않음
+ */
+export type PermissionDecision = 'allow' | 'deny' | 'always';
+
+/**
+ * 도구 실행 권한 요청
+ */
+export interface PermissionRequest {
+  /** 요청한 CLI 이름 */
+  cli: string;
+  /** 도구 이름 */
+  toolName: string;
+  /** 도구 종류 (ACP tool kind 형식: execute, edit 등) */
+  kind?: string;
+  /** 도구 입력 파라미터 */
+  input: Record<string, unknown>;
+  /** 요청 설명 (승인 사유 등) */
+  description?: string;
+  /** 변경 미리보기 (unified diff 형식) */
+  diff?: string;
 }
 
 /**
- * 스트리밍 콘텐츠 타입
+ * 도구 실행 권한 요청 처리 함수
+ * @param request - 권한 요청
+ * @returns 사용자 결정
  */
-export type StreamContentType = 'text' | 'tool_use' | 'tool_result' | 'reasoning';
+export type PermissionRequestHandler = (request: PermissionRequest) => Promise<PermissionDecision>;
 
 /**
- * 스트리밍 콘텐츠
+ * 권한 프로필 (각 CLI의 네이티브 권한/샌드박스 옵션으로 변환)
+ * - read-only: 파일 수정 도구 비활성화 (기본값)
+ * - workspace-write: 워크스페이스 내 파일 수정 허용
+ * - full-auto: 모든 도구 자동 승인 (샌드박스/승인 없음)
+ * - custom: 사용자 정의 허용/거부 도구 목록 사용
  */
-export interface StreamContent {
-  /** 콘텐츠 타입 */
-  type: StreamContentType;
-  /** 콘텐츠 내용 */
+export type PermissionProfile = 'read-only' | 'workspace-write' | 'full-auto' | 'custom';
+
+/**
+ * 권한 프로필 설정
+ */
+export interface PermissionProfileConfig {
+  /** 권한 프로필 */
+  profile: PermissionProfile;
+  /** 허용 도구 목록 (custom 프로필) */
+  allowedTools: string[];
+  /** 거부 도구 목록 (custom 프로필) */
+  disallowedTools: string[];
+}
+
+/**
+ * 텍스트 응답 조각
+ */
+export interface TextDeltaEvent {
+  type: 'text';
+  /** 응답 텍스트 */
   content: string;
-  /** 도구 이름 (tool_use 타입일 경우) */
+}
+
+/**
+ * 추론(thinking) 조각
+ */
+export interface ReasoningDeltaEvent {
+  type: 'reasoning';
+  /** 추론 텍스트 */
+  content: string;
+}
+
+/**
+ * 도구 호출 시작
+ */
+export interface ToolStartEvent {
+  type: 'tool_start';
+  /** 도구 호출 ID (같은 호출의 tool_end와 연결) */
+  toolId?: string;
+  /** 도구 이름 */
+  toolName: string;
+  /** 도구 입력 파라미터 */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * 도구 호출 종료 상태
+ */
+export type ToolEndStatus = 'success' | 'error' | 'declined';
+
+/**
+ * 도구 호출 종료
+ */
+export interface ToolEndEvent {
+  type: 'tool_end';
+  /** 도구 호출 ID */
+  toolId?: string;
+  /** 도구 이름 */
   toolName?: string;
+  /** 종료 상태 */
+  status: ToolEndStatus;
+  /** 도구 출력 */
+  output?: string;
+  /** 종료 코드 (명령 실행 도구) */
+  exitCode?: number | null;
+  /** 실행 시간 (밀리초) */
+  durationMs?: number;
+}
+
+/**
+ * 토큰 사용량 및 비용
+ */
+export interface UsageEvent {
+  type: 'usage';
+  /** 입력 토큰 수 */
+  inputTokens?: number;
+  /** 출력 토큰 수 */
+  outputTokens?: number;
+  /** 캐시에서 읽은 입력 토큰 수 */
+  cachedInputTokens?: number;
+  /** 전체 토큰 수 */
+  totalTokens?: number;
+  /** 비용 (USD) */
+  costUsd?: number;
+  /** 전체 실행 시간 (밀리초) */
+  durationMs?: number;
+  /** 사용한 모델 (세션 시작 시 보고하지 않는 CLI) */
+  model?: string;
+  /**
+   * 진행 중인 턴의 중간 누적 사용량 여부
+   * 턴 종료 시 최종 usage 이벤트가 대체하므로 합산하지 않고 실행 중 예산 확인에만 사용
+   */
+  partial?: boolean;
+}
+
+/**
+ * 세션 시작 정보
+ */
+export interface SessionEvent {
+  type: 'session';
+  /** CLI 세션 ID */
+  sessionId: string;
+  /** 사용 모델 */
+  model?: string;
+}
+
+/**
+ * 파일 변경 종류
+ */
+export type FileChangeKind = 'add' | 'delete' | 'update';
+
+/**
+ * 파일 변경
+ */
+export interface FileChangeEvent {
+  type: 'file_change';
+  /** 변경된 파일 목록 */
+  changes: Array<{
+    /** 파일 경로 */
+    path: string;
+    /** 변경 종류 */
+    kind?: FileChangeKind;
+    /** 변경 내용 (unified diff 형식) */
+    diff?: string;
+  }>;
 }
 
+/**
+ * 계획(할 일 목록) 항목 상태
+ */
+export type PlanEntryStatus = 'pending' | 'in_progress' | 'completed';
+
+/**
+ * 계획(할 일 목록) 갱신
+ */
+export interface PlanUpdateEvent {
+  type: 'plan';
+  /** 전체 계획 항목 */
+  entries: Array<{
+    /** 항목 내용 */
+    content: string;
+    /** 항목 상태 */
+    status: PlanEntryStatus;
+  }>;
+}
+
+/**
+ * CLI가 보고한 에러 (실행은 계속될 수 있음)
+ */
+export interface StreamErrorEvent {
+  type: 'error';
+  /** 에러 메시지 */
+  message: string;
+}
+
+/**
+ * 스트리밍 이벤트 (type 기준 판별 유니온)
+ */
+export type StreamEvent =
+  | TextDeltaEvent
+  | ReasoningDeltaEvent
+  | ToolStartEvent
+  | ToolEndEvent
+  | UsageEvent
+  | SessionEvent
+  | FileChangeEvent
+  | PlanUpdateEvent
+  | StreamErrorEvent;
+
+/**
+ * 스트리밍 이벤트 타입
+ */
+export type StreamEventType = StreamEvent['type'];
+
 /**
  * 스트리밍 콜백 함수 타입
- * @param content - 스트리밍된 콘텐츠
+ * @param event - 스트리밍된 이벤트
  */
-export type StreamCallback = (content: StreamContent) => void;
+export type StreamCallback = (event: StreamEvent) => void;
 
 /**
  * CLI 실행 결과
@@ -62,13 +336,64 @@ export interface CliResult {
   error?: string;
   /** CLI 세션 ID (세션 재활용 용도) */
   sessionId?: string;
+  /** 정규화된 사용량 (토큰, 비용, 실행 시간, 모델) */
+  usage?: CliUsage;
+  /** 예산 초과로 중단된 경우 초과 정보 */
+  budgetExceeded?: BudgetExceeded;
+  /** 사용자 취소로 중단되었는지 여부 (실패와 구분) */
+  cancelled?: boolean;
+}
+
+/**
+ * CLI 실패 분류
+ * - not_authenticated: 로그인/API 키 필요
+ * - rate_limited: 요청 한도 또는 할당량 초과
+ * - unknown_model: 지원하지 않는 모델
+ * - session_not_found: 재개할 세션 없음
+ * - network_unavailable: 네트워크 연결 실패
+ * - cli_outdated: 설치된 CLI가 전달한 옵션을 지원하지 않음
+ */
+export type CliErrorCategory =
+  | 'not_authenticated'
+  | 'rate_limited'
+  | 'unknown_model'
+  | 'session_not_found'
+  | 'network_unavailable'
+  | 'cli_outdated';
+
+/**
+ * CLI 실패 분류 패턴
+ */
+export interface CliErrorPattern {
+  /** 분류 */
+  category: CliErrorCategory;
+  /** stderr 또는 에러 메시지와 비교할 패턴 */
+  pattern: RegExp;
+}
+
+/**
+ * 정규화된 실행 사용량
+ */
+export interface CliUsage {
+  /** 입력 토큰 수 */
+  inputTokens?: number;
+  /** 출력 토큰 수 */
+  outputTokens?: number;
+  /** 캐시에서 읽은 입력 토큰 수 */
+  cachedInputTokens?: number;
+  /** 비용 (USD, CLI가 보고한 경우) */
+  costUsd?: number;
+  /** 실행 시간 (밀리초) */
+  durationMs: number;
+  /** 사용 모델 */
+  model?: string;
 }
 
 /**
  * Gemini stream-json 메시지 타입
  */
 export interface GeminiStreamMessage {
-  type: 'init' | 'message' | 'result' | 'tool_use' | 'tool_result';
+  type: 'init' | 'message' | 'result' | 'tool_use' | 'tool_result' | 'error';
   timestamp?: string;
   session_id?: string;
   model?: string;
@@ -84,36 +409,109 @@ export interface GeminiStreamMessage {
   parameters?: Record<string, unknown>;
   /** tool_result 타입일 때 결과 */
   output?: string;
+  /** error 타입일 때 심각도 */
+  severity?: 'warning' | 'error';
+  /** error 타입일 때 메시지 */
+  message?: string;
+  /** tool_result/result 타입일 때 에러 정보 */
+  error?: {
+    type?: string;
+    message: string;
+  };
   stats?: {
     total_tokens?: number;
     input_tokens?: number;
     output_tokens?: number;
+    cached?: number;
     duration_ms?: number;
   };
 }
 
+/**
+ * Claude 메시지 콘텐츠 블록
+ */
+export interface ClaudeContentBlock {
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result';
+  /** 텍스트 (text) */
+  text?: string;
+  /** 추론 내용 (thinking) */
+  thinking?: string;
+  /** 도구 호출 ID (tool_use) */
+  id?: string;
+  /** 도구 이름 (tool_use) */
+  name?: string;
+  /** 도구 입력 파라미터 (tool_use) */
+  input?: Record<string, unknown>;
+  /** 연결된 도구 호출 ID (tool_result) */
+  tool_use_id?: string;
+  /** 도구 결과 (tool_result) */
+  content?: string | Array<{ type: string; text?: string }>;
+  /** 도구 실행 실패 여부 (tool_result) */
+  is_error?: boolean;
+}
+
+/**
+ * Claude 토큰 사용량
+ */
+export interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/**
+ * Claude 부분 메시지 스트리밍 이벤트 (--include-partial-messages)
+ * Anthropic Messages API 스트리밍 이벤트와 동일한 구조
+ */
+export interface ClaudePartialEvent {
+  type:
+    | 'message_start'
+    | 'content_block_start'
+    | 'content_block_delta'
+    | 'content_block_stop'
+    | 'message_delta'
+    | 'message_stop';
+  /** 콘텐츠 블록 인덱스 */
+  index?: number;
+  /** 메시지 정보 (message_start) */
+  message?: { id?: string; usage?: ClaudeUsage };
+  /** 메시지 누적 사용량 (message_delta) */
+  usage?: ClaudeUsage;
+  /** 시작된 콘텐츠 블록 (content_block_start) */
+  content_block?: { type: string };
+  /** 증분 내용 (content_block_delta) */
+  delta?: {
+    type: 'text_delta' | 'thinking_delta' | 'input_json_delta' | 'signature_delta';
+    text?: string;
+    thinking?: string;
+  };
+}
+
 /**
  * Claude stream-json 메시지 타입
  */
 export interface ClaudeStreamMessage {
-  type: 'system' | 'assistant' | 'result';
-  subtype?: 'init' | 'success' | 'error';
+  type: 'system' | 'assistant' | 'user' | 'result' | 'stream_event';
+  subtype?: 'init' | 'success' | 'error' | 'error_max_turns' | 'error_during_execution';
   session_id?: string;
+  /** 사용 모델 (system init) */
+  model?: string;
+  /** 부분 메시지 이벤트 (stream_event) */
+  event?: ClaudePartialEvent;
   message?: {
+    id?: string;
     model?: string;
     role?: string;
-    content?: Array<{
-      type: 'text' | 'tool_use' | 'tool_result';
-      text?: string;
-      name?: string;
-      content?: string;
-    }>;
+    content?: ClaudeContentBlock[];
     stop_reason?: string;
+    usage?: ClaudeUsage;
   };
   result?: string;
   is_error?: boolean;
   duration_ms?: number;
   total_cost_usd?: number;
+  usage?: ClaudeUsage;
 }
 
 /**
@@ -124,8 +522,11 @@ export type CodexEventType =
   | 'thread.started'
   | 'turn.started'
   | 'turn.completed'
+  | 'turn.failed'
   | 'item.started'
-  | 'item.completed';
+  | 'item.updated'
+  | 'item.completed'
+  | 'error';
 
 /**
  * Codex item 타입
@@ -134,7 +535,11 @@ export type CodexItemType =
   | 'reasoning'
   | 'command_execution'
   | 'agent_message'
-  | 'mcp_tool_call';
+  | 'mcp_tool_call'
+  | 'file_change'
+  | 'todo_list'
+  | 'web_search'
+  | 'error';
 
 /**
  * Codex item 구조
@@ -153,11 +558,25 @@ export interface CodexItem {
   /** 종료 코드 (command_execution) */
   exit_code?: number | null;
   /** 상태 */
-  status?: 'in_progress' | 'completed' | 'failed';
+  status?: 'in_progress' | 'completed' | 'failed' | 'declined';
   /** MCP 도구 이름 (mcp_tool_call) */
   tool?: string;
   /** MCP 서버 이름 (mcp_tool_call) */
   server?: string;
+  /** MCP 도구 인자 (mcp_tool_call) */
+  arguments?: unknown;
+  /** MCP 도구 결과 (mcp_tool_call) */
+  result?: { content?: Array<{ type: string; text?: string }> } | null;
+  /** MCP 도구 실패 정보 (mcp_tool_call) */
+  error?: { message: string } | null;
+  /** 파일 변경 목록 (file_change, diff는 포함하지 않음) */
+  changes?: Array<{ path: string; kind: FileChangeKind }>;
+  /** 할 일 목록 (todo_list) */
+  items?: Array<{ text: string; completed: boolean }>;
+  /** 검색어 (web_search) */
+  query?: string;
+  /** 에러 메시지 (error, 실행은 계속됨) */
+  message?: string;
 }
 
 /**
@@ -176,6 +595,330 @@ export interface CodexStreamMessage {
     cached_input_tokens?: number;
     output_tokens?: number;
   };
+  /** 실패 정보 - turn.failed에서 제공 */
+  error?: { message: string };
+  /** 에러 메시지 - error에서 제공 (복구할 수 없는 스트림 에러) */
+  message?: string;
+}
+
+/**
+ * OpenCode `run --format json` 이벤트 타입
+ */
+export type OpenCodeEventType = 'step_start' | 'step_finish' | 'text' | 'reasoning' | 'tool_use' | 'error';
+
+/**
+ * OpenCode 메시지 파트 (이벤트의 part 필드)
+ */
+export interface OpenCodePart {
+  /** 파트 ID */
+  id?: string;
+  /** 파트 타입 */
+  type: 'text' | 'reasoning' | 'tool' | 'step-start' | 'step-finish';
+  /** 텍스트 내용 (text, reasoning) */
+  text?: string;
+  /** 도구 호출 ID (tool) */
+  callID?: string;
+  /** 도구 이름 (tool) */
+  tool?: string;
+  /** 도구 실행 상태 (tool) */
+  state?: {
+    status: 'pending' | 'running' | 'completed' | 'error';
+    input?: Record<string, unknown>;
+    output?: string;
+    error?: string;
+    title?: string;
+    time?: { start: number; end?: number };
+  };
+  /** 단계 비용 (step-finish, USD) */
+  cost?: number;
+  /** 단계 토큰 사용량 (step-finish) */
+  tokens?: {
+    input?: number;
+    output?: number;
+    reasoning?: number;
+    cache?: { read?: number; write?: number };
+  };
+}
+
+/**
+ * OpenCode `run --format json` 스트림 메시지
+ */
+export interface OpenCodeStreamMessage {
+  /** 이벤트 타입 */
+  type: OpenCodeEventType;
+  /** 이벤트 시각 (epoch 밀리초) */
+  timestamp?: number;
+  /** 세션 ID */
+  sessionID?: string;
+  /** 메시지 파트 (error 외 이벤트) */
+  part?: OpenCodePart;
+  /** 에러 정보 (error) */
+  error?: {
+    name?: string;
+    data?: { message?: string };
+  };
+}
+
+/**
+ * Codex app-server 아이템 타입 (v2 프로토콜)
+ */
+export type CodexAppServerItemType =
+  | 'userMessage'
+  | 'agentMessage'
+  | 'reasoning'
+  | 'commandExecution'
+  | 'fileChange'
+  | 'mcpToolCall'
+  | 'webSearch';
+
+/**
+ * Codex app-server 아이템 구조
+ */
+export interface CodexAppServerItem {
+  /** 아이템 ID */
+  id: string;
+  /** 아이템 타입 */
+  type: CodexAppServerItemType;
+  /** 텍스트 내용 (agentMessage) */
+  text?: string;
+  /** 추론 요약 (reasoning) */
+  summary?: string[];
+  /** 실행된 명령어 (commandExecution) */
+  command?: string;
+  /** 명령어 출력 (commandExecution) */
+  aggregatedOutput?: string | null;
+  /** 종료 코드 (commandExecution) */
+  exitCode?: number | null;
+  /** 실행 시간 (commandExecution, 밀리초) */
+  durationMs?: number | null;
+  /** 상태 */
+  status?: 'inProgress' | 'completed' | 'failed' | 'declined';
+  /** 파일 변경 목록 (fileChange) */
+  changes?: Array<{ path: string; kind?: { type: FileChangeKind }; diff?: string }>;
+  /** MCP 도구 인자 (mcpToolCall) */
+  arguments?: Record<string, unknown>;
+  /** MCP 서버 이름 (mcpToolCall) */
+  server?: string;
+  /** MCP 도구 이름 (mcpToolCall) */
+  tool?: string;
+  /** 검색어 (webSearch) */
+  query?: string;
+}
+
+/**
+ * Codex app-server 토큰 사용량 (thread/tokenUsage/updated)
+ */
+export interface CodexAppServerTokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Codex app-server 계획 항목 (turn/plan/updated)
+ */
+export interface CodexAppServerPlanStep {
+  step: string;
+  status: 'pending' | 'inProgress' | 'completed';
+}
+
+/**
+ * Codex app-server 턴 구조
+ */
+export interface CodexAppServerTurn {
+  /** 턴 ID */
+  id: string;
+  /** 턴 상태 */
+  status: 'inProgress' | 'completed' | 'interrupted' | 'failed';
+  /** 실패 시 에러 정보 */
+  error?: { message: string } | null;
+}
+
+/**
+ * Codex app-server 승인 요청 파라미터
+ * (item/commandExecution/requestApproval, item/fileChange/requestApproval)
+ */
+export interface CodexApprovalRequest {
+  threadId: string;
+  turnId: string;
+  itemId: string;
+  /** 승인 사유 */
+  reason?: string | null;
+  /** 실행할 명령어 (commandExecution) */
+  command?: string | null;
+}
+
+/**
+ * ACP(Agent Client Protocol) 콘텐츠 블록
+ * @see https://agentclientprotocol.com/protocol/content
+ */
+export interface AcpContentBlock {
+  type: 'text' | 'image' | 'audio' | 'resource_link' | 'resource';
+  text?: string;
+  uri?: string;
+  name?: string;
+}
+
+/**
+ * ACP 도구 호출 콘텐츠
+ */
+export interface AcpToolCallContent {
+  type: 'content' | 'diff' | 'terminal';
+  /** type이 content일 때 */
+  content?: AcpContentBlock;
+  /** type이 diff일 때 파일 경로 */
+  path?: string;
+  /** type이 diff일 때 변경 전 내용 */
+  oldText?: string | null;
+  /** type이 diff일 때 변경 후 내용 */
+  newText?: string;
+}
+
+/**
+ * ACP 계획 항목
+ */
+export interface AcpPlanEntry {
+  content: string;
+  priority?: 'high' | 'medium' | 'low';
+  status: 'pending' | 'in_progress' | 'completed';
+}
+
+/**
+ * ACP session/update 알림 페이로드
+ * @see https://agentclientprotocol.com/protocol/prompt-turn
+ */
+export interface AcpSessionUpdate {
+  sessionUpdate:
+    | 'user_message_chunk'
+    | 'agent_message_chunk'
+    | 'agent_thought_chunk'
+    | 'tool_call'
+    | 'tool_call_update'
+    | 'plan'
+    | 'available_commands_update'
+    | 'current_mode_update';
+  /** message/thought chunk 콘텐츠 */
+  content?: AcpContentBlock | AcpToolCallContent[];
+  /** 도구 호출 ID */
+  toolCallId?: string;
+  /** 도구 호출 제목 */
+  title?: string;
+  /** 도구 종류 (read, edit, execute 등) */
+  kind?: string;
+  /** 도구 호출 상태 */
+  status?: 'pending' | 'in_progress' | 'completed' | 'failed';
+  /** 도구 입력 파라미터 */
+  rawInput?: Record<string, unknown>;
+  /** 도구 출력 */
+  rawOutput?: unknown;
+  /** plan 항목 */
+  entries?: AcpPlanEntry[];
+}
+
+/**
+ * ACP 권한 요청 옵션
+ */
+export interface AcpPermissionOption {
+  optionId: string;
+  name: string;
+  kind: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+}
+
+/**
+ * ACP session/request_permission 요청 파라미터
+ */
+export interface AcpPermissionRequest {
+  sessionId: string;
+  toolCall: AcpSessionUpdate;
+  options: AcpPermissionOption[];
+}
+
+/**
+ * 출력 라인 매칭 조건 (JSON 경로 → 기대 값, 모두 일치해야 함)
+ */
+export type JsonLineMatch = Record<string, string | number | boolean | null>;
+
+/**
+ * 출력 라인에서 값을 추출하는 매핑 (텍스트, 추론, 세션 ID)
+ */
+export interface CustomAgentValueMapping {
+  /** 매칭 조건 (생략 시 모든 라인) */
+  when?: JsonLineMatch;
+  /** 값의 JSON 경로 (예: $.message.content) */
+  path: string;
+}
+
+/**
+ * 출력 라인을 도구 호출 시작으로 변환하는 매핑
+ */
+export interface CustomAgentToolUseMapping {
+  /** 매칭 조건 (생략 시 모든 라인) */
+  when?: JsonLineMatch;
+  /** 도구 이름의 JSON 경로 */
+  name: string;
+  /** 도구 호출 ID의 JSON 경로 */
+  id?: string;
+  /** 도구 입력의 JSON 경로 */
+  input?: string;
+}
+
+/**
+ * 출력 라인을 도구 호출 결과로 변환하는 매핑
+ */
+export interface CustomAgentToolResultMapping {
+  /** 매칭 조건 (생략 시 모든 라인) */
+  when?: JsonLineMatch;
+  /** 도구 호출 ID의 JSON 경로 */
+  id?: string;
+  /** 도구 이름의 JSON 경로 */
+  name?: string;
+  /** 도구 출력의 JSON 경로 */
+  output?: string;
+  /** 실패 여부(boolean)의 JSON 경로 */
+  isError?: string;
+}
+
+/**
+ * 출력 라인 → 스트리밍 이벤트 매핑 (종류별로 처음 일치하는 매핑 사용)
+ */
+export interface CustomAgentOutputMapping {
+  text?: CustomAgentValueMapping | CustomAgentValueMapping[];
+  reasoning?: CustomAgentValueMapping | CustomAgentValueMapping[];
+  toolUse?: CustomAgentToolUseMapping | CustomAgentToolUseMapping[];
+  toolResult?: CustomAgentToolResultMapping | CustomAgentToolResultMapping[];
+  sessionId?: CustomAgentValueMapping | CustomAgentValueMapping[];
+}
+
+/**
+ * 선언형 커스텀 에이전트 정의 (CCA.cli.agents 설정 또는 .vscode/cca-agents.json)
+ * 인자 템플릿은 ${prompt}, ${model}, ${sessionId}, ${directory} 변수를 사용
+ */
+export interface CustomAgentDefinition {
+  /** 에이전트 이름 (/use <name>) */
+  name: string;
+  /** 설명 */
+  description?: string;
+  /** 실행할 명령어 또는 실행 파일 경로 */
+  command: string;
+  /** 항상 전달하는 인자 (출력 형식 등) */
+  args?: string[];
+  /** 프롬프트 인자 템플릿 (생략 시 프롬프트를 stdin으로 전달) */
+  promptArgs?: string[];
+  /** 모델 이름 */
+  model?: string;
+  /** 모델 인자 템플릿 (model 설정 시에만 전달) */
+  modelArgs?: string[];
+  /** 세션 재개 인자 템플릿 (재개할 세션이 있을 때만 전달) */
+  resumeArgs?: string[];
+  /** 워크스페이스 폴더별 디렉토리 인자 템플릿 */
+  directoryArgs?: string[];
+  /** process.env에 덮어쓸 환경 변수 */
+  env?: Record<string, string>;
+  /** 버전 확인 인자 (기본값: --version) */
+  versionArgs?: string[];
+  /** 출력 라인 매핑 */
+  output: CustomAgentOutputMapping;
 }
 
 /**
@@ -261,4 +1004,32 @@ export interface CliRunner {
   checkInstallation(): Promise<InstallInfo>;
 
   getInstallGuidance(): HealthGuidance;
+
+  /**
+   * 현재 적용된 권한 프로필 (응답 푸터 표시용)
+   */
+  getPermissionProfile?(): PermissionProfile;
+
+  /**
+   * 대화형 CLI 실행 명령 (/handoff용, 미구현 시 CLI 이름과 실행 파일 설정 사용)
+   * @param args - 모델, 세션 재개, 디렉토리 인자
+   */
+  getInteractiveCommand?(args: string[]): CliCommand;
+
+  /**
+   * CLI가 세션 포크(기존 세션을 복제한 새 세션으로 재개)를 지원하는지 여부
+   * 지원하지 않으면 대화 기록 요약으로 새 세션을 시작하여 포크
+   */
+  supportsForkSession?(): boolean;
+
+  /**
+   * 에이전트 지침을 매 실행마다 전달해야 하는지 여부
+   * 시스템 프롬프트로 주입한 지침은 세션 기록에 남지 않으므로 세션을 재개할 때도 다시 전달해야 함
+   */
+  requiresAgentInstructionsEachRun?(): boolean;
+
+  /**
+   * Runner가 보유한 리소스 정리 (장기 실행 프로세스 등)
+   */
+  dispose?(): void;
 }
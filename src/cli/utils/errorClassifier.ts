@@ -0,0 +1,68 @@
+/**
+ * Error Classifier 유틸리티
+ *
+ * CLI stderr와 스트림 에러 메시지를 실패 분류로 변환합니다.
+ * CLI별 패턴을 먼저 비교하고, 일치하지 않으면 공통 패턴을 비교합니다.
+ */
+
+import { CliErrorCategory, CliErrorPattern } from '../types';
+
+/**
+ * 모든 CLI에 공통으로 적용하는 패턴 (위에서부터 먼저 일치한 분류 사용)
+ */
+export const COMMON_ERROR_PATTERNS: CliErrorPattern[] = [
+  { category: 'cli_outdated', pattern: /unknown (?:option|argument|flag)|unexpected argument|unrecognized (?:option|argument)|unknown arguments?:/i },
+  { category: 'session_not_found', pattern: /(?:session|conversation|thread)\b.{0,80}\b(?:not found|does not exist)|no (?:conversation|session) found/i },
+  { category: 'unknown_model', pattern: /(?:unknown|invalid|unsupported|unrecognized) model|model\b.{0,80}\b(?:not found|does not exist|is not supported|not available)|model_not_found/i },
+  { category: 'not_authenticated', pattern: /not (?:logged in|authenticated)|unauthori[sz]ed|(?:status|code|error)\W{0,3}401\b|invalid (?:api key|x-api-key)|authentication (?:failed|required)|please (?:log ?in|sign in)/i },
+  { category: 'rate_limited', pattern: /rate[ _-]?limit|too many requests|(?:status|code|error)\W{0,3}429\b|quota (?:exceeded|exhausted)|exceeded (?:your|the) (?:current )?quota|usage limit|resource[_ ]exhausted|credit balance is too low/i },
+  { category: 'network_unavailable', pattern: /ENOTFOUND|ECONNREFUSED|ECONNRESET|EAI_AGAIN|getaddrinfo|fetch failed|network (?:error|is unreachable)|unable to connect|connection (?:refused|reset|error)|stream disconnected/i },
+];
+
+/**
+ * CLI별 패턴 (공통 패턴으로 구분할 수 없는 고유 메시지)
+ */
+export const CLI_ERROR_PATTERNS: Record<string, CliErrorPattern[]> = {
+  claude: [
+    { category: 'session_not_found', pattern: /No conversation found with session ID/i },
+    { category: 'not_authenticated', pattern: /Invalid API key.*\/login|OAuth token (?:has expired|revoked)|Please run \/login/i },
+    { category: 'rate_limited', pattern: /Claude AI usage limit reached|\d+-hour limit reached|overloaded_error/i },
+  ],
+  codex: [
+    { category: 'session_not_found', pattern: /no rollout found|(?:rollout|thread) .*(?:not found|does not exist)/i },
+    { category: 'not_authenticated', pattern: /OPENAI_API_KEY|run `?codex login`?|token (?:data is not available|expired)/i },
+    { category: 'rate_limited', pattern: /You've hit your usage limit|usage_limit_reached/i },
+    { category: 'unknown_model', pattern: /The '[^']+' model (?:is not supported|does not exist)/i },
+  ],
+  gemini: [
+    { category: 'session_not_found', pattern: /Error resuming session|Invalid session identifier|No previous sessions found/i },
+    { category: 'not_authenticated', pattern: /Please set an Auth method|GEMINI_API_KEY (?:environment variable )?not found|must specify the GEMINI_API_KEY/i },
+  ],
+  qwen: [
+    { category: 'session_not_found', pattern: /Error resuming session|Invalid session identifier|No previous sessions found/i },
+    { category: 'not_authenticated', pattern: /Please set an Auth method|OPENAI_API_KEY (?:environment variable )?not found|Qwen OAuth/i },
+  ],
+  copilotcli: [
+    { category: 'not_authenticated', pattern: /No authentication information found|requires authentication|run `?\/login`?/i },
+    { category: 'rate_limited', pattern: /premium requests?\b.*(?:limit|exhausted|exceeded)/i },
+  ],
+  opencode: [
+    { category: 'session_not_found', pattern: /Session not found|NotFoundError.*ses_/i },
+    { category: 'not_authenticated', pattern: /ProviderAuthError|No API key found/i },
+    { category: 'unknown_model', pattern: /(?:Provider)?ModelNotFoundError/i },
+  ],
+};
+
+/**
+ * CLI 실패 메시지 분류
+ * @param cliName - CLI 이름 (CLI_ERROR_PATTERNS 키, 없으면 공통 패턴만 사용)
+ * @param message - stderr 또는 스트림 에러 메시지
+ * @returns 실패 분류 (알 수 없으면 undefined)
+ */
+export function classifyCliError(cliName: string, message: string): CliErrorCategory | undefined {
+  if (!message.trim()) {
+    return undefined;
+  }
+  const patterns = [...(CLI_ERROR_PATTERNS[cliName] ?? []), ...COMMON_ERROR_PATTERNS];
+  return patterns.find(({ pattern }) => pattern.test(message))?.category;
+}
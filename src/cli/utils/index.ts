@@ -3,3 +3,4 @@
  */
 
 export { formatHealthReport } from './healthReporter';
+export { classifyCliError, CLI_ERROR_PATTERNS, COMMON_ERROR_PATTERNS } from './errorClassifier';
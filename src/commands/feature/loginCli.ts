@@ -0,0 +1,33 @@
+/**
+ * Login CLI 커맨드 구현
+ *
+ * 인증 실패로 중단된 응답의 "Log in" 버튼에서 호출되어
+ * 에디터 옆 터미널에서 CLI 로그인 흐름을 실행합니다.
+ */
+
+import { CommandConfig } from '../types';
+import { CliCommand } from '../../cli/types';
+import { LOGIN_CLI_COMMAND } from '../../participants/remediation';
+import { openCliTerminal } from '../../participants/feature/utils';
+
+/**
+ * Login CLI 커맨드 핸들러
+ * @param cli - CLI 이름
+ * @param cliCommand - 로그인 흐름을 시작하는 실행 명령
+ */
+function handleLoginCli(cli: unknown, cliCommand: unknown): void {
+  const command = cliCommand as CliCommand | undefined;
+  if (typeof cli !== 'string' || typeof command?.command !== 'string' || !Array.isArray(command.args)) {
+    return;
+  }
+
+  openCliTerminal(`${cli} login`, command);
+}
+
+/**
+ * Login CLI 커맨드 설정
+ */
+export const loginCliCommand: CommandConfig = {
+  id: LOGIN_CLI_COMMAND,
+  handler: handleLoginCli,
+};
@@ -0,0 +1,39 @@
+/**
+ * Raise Budget 커맨드 구현
+ *
+ * 예산 초과로 중단된 응답의 "Continue" 버튼에서 호출되어 세션 한도를 올리고,
+ * 같은 에이전트에게 이어서 진행하도록 채팅 입력을 채워 전송합니다.
+ */
+
+import * as vscode from 'vscode';
+import { CommandConfig } from '../types';
+import { ChatBudgetManager, RAISE_BUDGET_COMMAND } from '../../participants/budget';
+
+/**
+ * 한도 상향 후 전송할 후속 요청
+ */
+const CONTINUE_PROMPT = 'Continue where you left off.';
+
+/**
+ * Raise Budget 커맨드 핸들러
+ * @param cli - CLI 이름
+ * @param sessionId - CLI 세션 ID
+ */
+async function handleRaiseBudget(cli: unknown, sessionId: unknown): Promise<void> {
+  if (typeof cli !== 'string') {
+    return;
+  }
+
+  await ChatBudgetManager.raiseLimit(cli, typeof sessionId === 'string' ? sessionId : undefined);
+  await vscode.commands.executeCommand('workbench.action.chat.open', {
+    query: `@${cli} ${CONTINUE_PROMPT}`,
+  });
+}
+
+/**
+ * Raise Budget 커맨드 설정
+ */
+export const raiseBudgetCommand: CommandConfig = {
+  id: RAISE_BUDGET_COMMAND,
+  handler: handleRaiseBudget,
+};
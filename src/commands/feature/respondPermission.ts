@@ -0,0 +1,32 @@
+/**
+ * Respond Permission 커맨드 구현
+ *
+ * 채팅 응답에 표시된 권한 요청 버튼(Allow/Deny/Always allow)의 결정을 CLI에 전달합니다.
+ */
+
+import * as vscode from 'vscode';
+import { CommandConfig } from '../types';
+import { PermissionDecision } from '../../cli/types';
+import { ChatPermissionManager, RESPOND_PERMISSION_COMMAND } from '../../participants/permission';
+
+/**
+ * 버튼이 전달할 수 있는 권한 결정 값
+ */
+const PERMISSION_DECISIONS: PermissionDecision[] = ['allow', 'deny', 'always'];
+
+/**
+ * Respond Permission 커맨드 설정
+ */
+export const respondPermissionCommand: CommandConfig = {
+  id: RESPOND_PERMISSION_COMMAND,
+  handler: (requestId: unknown, decision: unknown) => {
+    // 커맨드 인자는 임의 값일 수 있으므로 알 수 없는 결정은 거부로 처리
+    const validDecision = PERMISSION_DECISIONS.includes(decision as PermissionDecision)
+      ? (decision as PermissionDecision)
+      : 'deny';
+    const resolved = ChatPermissionManager.resolve(String(requestId), validDecision);
+    if (!resolved) {
+      vscode.window.showInformationMessage('This permission request has already been answered or has expired.');
+    }
+  },
+};
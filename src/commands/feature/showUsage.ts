@@ -0,0 +1,208 @@
+/**
+ * Show Usage 커맨드 구현
+ *
+ * 누적된 CLI 사용량을 에이전트/모델/날짜/워크스페이스별로 집계한 마크다운 리포트를 열고,
+ * 원본 기록을 CSV로 내보낼 수 있도록 합니다.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CommandConfig } from '../types';
+import { UsageLedger, UsageLedgerEntry } from '../../participants/usage';
+
+/**
+ * 리포트 이후 선택 가능한 동작
+ */
+const EXPORT_CSV_ACTION = 'Export CSV';
+const CLEAR_USAGE_ACTION = 'Clear Usage';
+
+/**
+ * CSV 열 목록 (UsageLedgerEntry 필드 순서)
+ */
+const CSV_COLUMNS: Array<keyof UsageLedgerEntry> = [
+  'date',
+  'cli',
+  'model',
+  'workspace',
+  'runs',
+  'inputTokens',
+  'cachedInputTokens',
+  'outputTokens',
+  'costUsd',
+  'durationMs',
+];
+
+/**
+ * 집계 합계
+ */
+interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * 기록 항목을 키별로 합산
+ */
+function aggregate(
+  entries: UsageLedgerEntry[],
+  keyOf: (entry: UsageLedgerEntry) => string
+): Map<string, UsageTotals> {
+  const totals = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const current = totals.get(key) ?? {
+      runs: 0,
+      inputTokens: 0,
+      cachedInputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      durationMs: 0,
+    };
+    current.runs += entry.runs;
+    current.inputTokens += entry.inputTokens;
+    current.cachedInputTokens += entry.cachedInputTokens;
+    current.outputTokens += entry.outputTokens;
+    current.costUsd += entry.costUsd;
+    current.durationMs += entry.durationMs;
+    totals.set(key, current);
+  }
+  return totals;
+}
+
+/**
+ * 집계 결과를 마크다운 표로 변환
+ */
+function formatTable(title: string, label: string, totals: Map<string, UsageTotals>, descending = false): string {
+  const keys = [...totals.keys()].sort();
+  if (descending) {
+    keys.reverse();
+  }
+
+  const rows = keys.map((key) => {
+    const value = totals.get(key)!;
+    return `| ${key} | ${value.runs} | ${value.inputTokens.toLocaleString()} | ${value.cachedInputTokens.toLocaleString()} | ${value.outputTokens.toLocaleString()} | $${value.costUsd.toFixed(4)} | ${(value.durationMs / 1000).toFixed(1)}s |`;
+  });
+
+  return [
+    `## ${title}`,
+    '',
+    `| ${label} | Runs | Input | Cached | Output | Cost | Duration |`,
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * 사용량 리포트 마크다운 생성
+ */
+function buildReport(entries: UsageLedgerEntry[]): string {
+  const total = aggregate(entries, () => 'All agents');
+
+  return [
+    '# CLI Agents Usage',
+    '',
+    '> Cost is only included for CLIs that report it (e.g. Claude). Token counts are as reported by each CLI.',
+    '',
+    formatTable('Total', 'Scope', total),
+    '',
+    formatTable('By Agent', 'Agent', aggregate(entries, (entry) => `@${entry.cli}`)),
+    '',
+    formatTable('By Model', 'Agent / Model', aggregate(entries, (entry) => `@${entry.cli} / ${entry.model}`)),
+    '',
+    formatTable('By Day', 'Date', aggregate(entries, (entry) => entry.date), true),
+    '',
+    formatTable('By Workspace', 'Workspace', aggregate(entries, (entry) => entry.workspace)),
+    '',
+  ].join('\n');
+}
+
+/**
+ * CSV 값 이스케이프
+ */
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 사용량 기록을 CSV로 변환
+ */
+function buildCsv(entries: UsageLedgerEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => escapeCsv(entry[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 사용량 기록을 CSV 파일로 내보내기
+ */
+async function exportCsv(entries: UsageLedgerEntry[]): Promise<void> {
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, 'cli-agents-usage.csv') : undefined,
+    filters: { CSV: ['csv'] },
+  });
+  if (!target) {
+    return;
+  }
+
+  try {
+    await fs.promises.writeFile(target.fsPath, buildCsv(entries), 'utf-8');
+    vscode.window.showInformationMessage(`Usage exported to ${target.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to export usage: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Show Usage 커맨드 핸들러
+ */
+async function handleShowUsage(): Promise<void> {
+  const entries = UsageLedger.getEntries().sort((a, b) => a.date.localeCompare(b.date));
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('No CLI agent usage has been recorded yet.');
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: buildReport(entries),
+  });
+  await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+
+  const action = await vscode.window.showInformationMessage(
+    `Recorded usage for ${entries.length} agent/model/day entries.`,
+    EXPORT_CSV_ACTION,
+    CLEAR_USAGE_ACTION
+  );
+
+  if (action === EXPORT_CSV_ACTION) {
+    await exportCsv(entries);
+  } else if (action === CLEAR_USAGE_ACTION) {
+    const confirm = await vscode.window.showWarningMessage(
+      'Clear all recorded CLI agent usage?',
+      { modal: true },
+      CLEAR_USAGE_ACTION
+    );
+    if (confirm === CLEAR_USAGE_ACTION) {
+      await UsageLedger.clear();
+      vscode.window.showInformationMessage('CLI agent usage has been cleared.');
+    }
+  }
+}
+
+/**
+ * Show Usage 커맨드 설정
+ */
+export const showUsageCommand: CommandConfig = {
+  id: 'copilot-cli-agents.showUsage',
+  handler: handleShowUsage,
+};
@@ -5,11 +5,21 @@
 import * as vscode from 'vscode';
 import { CommandConfig } from './types';
 import { scaffoldLlmCommand } from './feature/scaffold';
+import { respondPermissionCommand } from './feature/respondPermission';
+import { showUsageCommand } from './feature/showUsage';
+import { raiseBudgetCommand } from './feature/raiseBudget';
+import { loginCliCommand } from './feature/loginCli';
 
 /**
  * 등록할 커맨드 목록
  */
-const commands: CommandConfig[] = [scaffoldLlmCommand];
+const commands: CommandConfig[] = [
+  scaffoldLlmCommand,
+  respondPermissionCommand,
+  showUsageCommand,
+  raiseBudgetCommand,
+  loginCliCommand,
+];
 
 /**
  * 단일 커맨드 등록
@@ -3,6 +3,7 @@
 import * as vscode from 'vscode';
 import { registerAllParticipants } from './participants';
 import { registerAllCommands } from './commands';
+import { registerAllTools } from './tools';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -12,6 +13,9 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Commands 등록
 	registerAllCommands(context);
+
+	// Language Model Tools 등록 (Agent 모드 위임용)
+	registerAllTools(context);
 }
 
 // This method is called when your extension is deactivated
@@ -0,0 +1,177 @@
+/**
+ * 채팅 세션 예산 관리자
+ * CCA.<agent>.budget 설정과 세션별 누적 사용량으로 실행 예산을 계산하고,
+ * 한도 초과 시 중단 사유와 한도 상향 버튼을 채팅 응답에 표시
+ */
+
+import * as vscode from 'vscode';
+import { BudgetExceeded, CliBudget, CliUsage } from '../cli/types';
+import { getBudgetConfig } from './feature/utils';
+
+/**
+ * 한도 상향 후 이어서 실행하는 커맨드 ID
+ */
+export const RAISE_BUDGET_COMMAND = 'copilot-cli-agents.raiseBudget';
+
+/**
+ * 세션별 누적 사용량을 저장하는 workspaceState 키
+ */
+const SESSION_SPEND_KEY = 'cca.budget.sessions';
+
+/**
+ * 한도 상향 시 곱하는 배수
+ */
+const RAISE_FACTOR = 2;
+
+/**
+ * 세션별 누적 사용량 및 한도 배수
+ */
+interface SessionSpend {
+  /** 누적 비용 (USD) */
+  costUsd: number;
+  /** 누적 토큰 수 (입력 + 출력) */
+  tokens: number;
+  /** 설정 한도에 곱하는 배수 (한도 상향 시 증가) */
+  factor: number;
+}
+
+/**
+ * 실행 예산 계산 결과
+ */
+export interface TurnBudget {
+  /** 이번 턴에 적용할 예산 (한도 미설정 시 undefined) */
+  budget?: CliBudget;
+  /** 세션 예산을 이미 모두 사용한 경우 초과 정보 */
+  exhausted?: BudgetExceeded;
+}
+
+/**
+ * 채팅 세션 예산 관리자
+ */
+export class ChatBudgetManager {
+  private static state?: vscode.Memento;
+
+  /**
+   * 초기화 (세션별 누적 사용량 저장소 설정)
+   * @param context - VS Code Extension Context
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.workspaceState;
+  }
+
+  /**
+   * 이번 턴에 적용할 예산 계산 (턴 한도와 세션 잔여 한도 중 작은 값)
+   * @param cli - CLI 이름
+   * @param sessionId - CLI 세션 ID (새 세션이면 undefined)
+   * @returns 실행 예산
+   */
+  static getTurnBudget(cli: string, sessionId: string | undefined): TurnBudget {
+    const config = getBudgetConfig(cli);
+    const spend = this.getSpend(cli, sessionId);
+    const scale = (value?: number) => (value === undefined ? undefined : value * spend.factor);
+
+    const maxCostUsdPerSession = scale(config.maxCostUsdPerSession);
+    const maxTokensPerSession = scale(config.maxTokensPerSession);
+
+    if (maxCostUsdPerSession !== undefined && spend.costUsd >= maxCostUsdPerSession) {
+      return { exhausted: { limit: 'cost', used: spend.costUsd, max: maxCostUsdPerSession } };
+    }
+    if (maxTokensPerSession !== undefined && spend.tokens >= maxTokensPerSession) {
+      return { exhausted: { limit: 'tokens', used: spend.tokens, max: maxTokensPerSession } };
+    }
+
+    const min = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.min(a, b));
+    const budget: CliBudget = {
+      maxCostUsd: min(
+        scale(config.maxCostUsdPerTurn),
+        maxCostUsdPerSession === undefined ? undefined : maxCostUsdPerSession - spend.costUsd
+      ),
+      maxTokens: min(
+        scale(config.maxTokensPerTurn),
+        maxTokensPerSession === undefined ? undefined : maxTokensPerSession - spend.tokens
+      ),
+    };
+
+    return budget.maxCostUsd === undefined && budget.maxTokens === undefined ? {} : { budget };
+  }
+
+  /**
+   * 세션 누적 사용량 기록
+   * @param cli - CLI 이름
+   * @param sessionId - CLI 세션 ID
+   * @param usage - 정규화된 사용량
+   */
+  static async recordSpend(cli: string, sessionId: string | undefined, usage: CliUsage): Promise<void> {
+    const spend = this.getSpend(cli, sessionId);
+    spend.costUsd += usage.costUsd ?? 0;
+    spend.tokens += (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+    await this.setSpend(cli, sessionId, spend);
+  }
+
+  /**
+   * 세션 한도 상향 (설정 한도의 배수 증가)
+   * @param cli - CLI 이름
+   * @param sessionId - CLI 세션 ID
+   */
+  static async raiseLimit(cli: string, sessionId: string | undefined): Promise<void> {
+    const spend = this.getSpend(cli, sessionId);
+    spend.factor *= RAISE_FACTOR;
+    await this.setSpend(cli, sessionId, spend);
+  }
+
+  /**
+   * 예산 초과 사용량 설명 (예: used $0.5200 of the $0.5000 cost budget)
+   * @param exceeded - 예산 초과 정보
+   */
+  static describeExceeded(exceeded: BudgetExceeded): string {
+    const format = (value: number) =>
+      exceeded.limit === 'cost' ? `$${value.toFixed(4)}` : `${value.toLocaleString()} tokens`;
+    return `used ${format(exceeded.used)} of the ${format(exceeded.max)} ${exceeded.limit} budget`;
+  }
+
+  /**
+   * 예산 초과 사유와 한도 상향 버튼 출력
+   * @param stream - Chat response stream
+   * @param cli - CLI 이름
+   * @param sessionId - CLI 세션 ID
+   * @param exceeded - 예산 초과 정보
+   * @param stopped - 예산 초과로 실행이 중단되었는지 여부 (false면 응답은 완료됨)
+   */
+  static renderExceeded(
+    stream: vscode.ChatResponseStream,
+    cli: string,
+    sessionId: string | undefined,
+    exceeded: BudgetExceeded,
+    stopped = true
+  ): void {
+    const outcome = stopped ? `so **@${cli}** was stopped` : `as **@${cli}** finished this response`;
+    stream.markdown(
+      `\n\n---\n⛔ **Budget limit reached:** ${this.describeExceeded(exceeded)}, ${outcome}. ` +
+      `Adjust \`CCA.${cli}.budget\` or continue with a ${RAISE_FACTOR}× higher limit for this session.\n\n`
+    );
+    stream.button({
+      title: `Continue with ${RAISE_FACTOR}× limit`,
+      command: RAISE_BUDGET_COMMAND,
+      arguments: [cli, sessionId],
+    });
+  }
+
+  /**
+   * 세션 누적 사용량 조회
+   */
+  private static getSpend(cli: string, sessionId: string | undefined): SessionSpend {
+    const sessions = this.state?.get<Record<string, SessionSpend>>(SESSION_SPEND_KEY, {}) ?? {};
+    return { ...(sessions[`${cli}:${sessionId ?? ''}`] ?? { costUsd: 0, tokens: 0, factor: 1 }) };
+  }
+
+  /**
+   * 세션 누적 사용량 저장
+   */
+  private static async setSpend(cli: string, sessionId: string | undefined, spend: SessionSpend): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+    const sessions = this.state.get<Record<string, SessionSpend>>(SESSION_SPEND_KEY, {});
+    await this.state.update(SESSION_SPEND_KEY, { ...sessions, [`${cli}:${sessionId ?? ''}`]: spend });
+  }
+}
@@ -6,6 +6,7 @@
 import { formatHealthReport } from '../../../cli/utils';
 import { CliHealthStatus, DoctorResult, CliRunner } from '../../../cli/types';
 import { ParticipantCommand, CommandContext } from '../types';
+import { neutralizeMarkers } from '../../session';
 
 /**
  * CLI 상태 검증 실행
@@ -41,10 +42,10 @@ async function handleDoctor(ctx: CommandContext): Promise<boolean> {
     const result = await runDoctor(cliRunner);
 
     const report = formatHealthReport(result);
-    stream.markdown(report);
+    stream.markdown(neutralizeMarkers(report));
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    stream.markdown(`❌ **Error during health check:** ${errorMessage}`);
+    stream.markdown(`❌ **Error during health check:** ${neutralizeMarkers(errorMessage)}`);
   }
 
   return true;
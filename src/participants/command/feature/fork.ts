@@ -0,0 +1,41 @@
+/**
+ * /fork 커맨드 구현
+ * 현재 CLI 세션을 복제한 새 세션으로 대화를 이어갑니다. 원본 세션은 그대로 유지됩니다.
+ */
+
+import { ParticipantCommand, CommandContext } from '../types';
+import { ChatSessionManager } from '../../session';
+
+/**
+ * 프롬프트 없이 실행했을 때 포크한 세션에 전달할 요청
+ */
+const FORK_PROMPT = 'This session was forked. Briefly confirm that you have the conversation context and wait for the next request.';
+
+/**
+ * fork 커맨드 핸들러
+ * 현재 세션이 있으면 처리하지 않고 CLI 실행으로 넘김 (세션 포크)
+ * @param ctx - 커맨드 컨텍스트
+ * @returns 커맨드 처리 완료 여부
+ */
+async function handleFork(ctx: CommandContext): Promise<boolean> {
+  const { context, stream, config } = ctx;
+
+  if (ChatSessionManager.findSessionId(context.history)) {
+    return false;
+  }
+
+  stream.markdown(`ℹ️ **No Active Session**\n\n`);
+  stream.markdown(`There is no session to fork yet. Start a conversation with **@${config.cliRunner.name}** first.`);
+  return true;
+}
+
+/**
+ * fork 커맨드 설정
+ */
+export const forkCommand: ParticipantCommand = {
+  name: 'fork',
+  description: 'Branch the current CLI session into a new session',
+  handler: handleFork,
+  sessionAction: 'fork',
+  defaultPrompt: FORK_PROMPT,
+};
@@ -3,9 +3,9 @@
  * 대화형 CLI 터미널로 현재 세션을 이전합니다.
  */
 
-import * as vscode from 'vscode';
 import { ParticipantCommand, CommandContext } from '../types';
-import { ChatSessionManager } from '../../session';
+import { ChatSessionManager, neutralizeMarkers } from '../../session';
+import { getInteractiveCliCommand, openCliTerminal } from '../../feature/utils';
 
 /**
  * handoff 커맨드 핸들러
@@ -26,36 +26,24 @@ async function handleHandoff(ctx: CommandContext): Promise<boolean> {
   }
 
   try {
-    // CLI 명령어 구성
-    const cliCommand = [
-      cliRunner.name, 
+    // CLI 명령어 구성 (채팅 실행과 동일한 실행 파일 설정 적용)
+    const handoffArgs = [
       ...cliRunner.getArgumentModel(),
       ...cliRunner.getArgumentResume(sessionId),
       ...cliRunner.getArgumentDirectories(),
-    ].join(' ');
+    ];
 
-    // 에디터 사이드 영역에 터미널 생성 (Windows에서는 cmd 사용)
-    const terminal = vscode.window.createTerminal({
-      name: `${name} CLI`,
-      location: {
-        viewColumn: vscode.ViewColumn.Beside,
-      },
-      iconPath,
-      ...(process.platform === 'win32' && {
-        shellPath: 'cmd.exe',
-      }),
-    });
-    terminal.show();
-    terminal.sendText(cliCommand);
+    // 에디터 사이드 영역에 터미널 생성
+    openCliTerminal(`${name} CLI`, getInteractiveCliCommand(cliRunner, handoffArgs), iconPath);
 
     stream.markdown(`🚀 **Handoff Successful**\n\n`);
     stream.markdown(
-      `Interactive ${name} CLI has been opened in a side terminal with session \`${sessionId}\`.\n\n`
+      `Interactive ${name} CLI has been opened in a side terminal with session \`${neutralizeMarkers(sessionId)}\`.\n\n`
     );
     stream.markdown(`> You can continue your conversation directly in the terminal.`);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    stream.markdown(`❌ **Error during handoff:** ${errorMessage}`);
+    stream.markdown(`❌ **Error during handoff:** ${neutralizeMarkers(errorMessage)}`);
   }
 
   return true;
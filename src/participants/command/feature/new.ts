@@ -0,0 +1,50 @@
+/**
+ * /new 커맨드 구현
+ * 같은 채팅에서 이전 CLI 세션을 이어가지 않고 새 세션을 시작합니다.
+ */
+
+import * as vscode from 'vscode';
+import { ParticipantCommand, CommandContext } from '../types';
+import { ChatSessionManager } from '../../session';
+import { ChatSessionMetadata } from '../../types';
+
+/**
+ * new 커맨드 핸들러
+ * 프롬프트가 있으면 처리하지 않고 CLI 실행으로 넘겨 새 세션에서 바로 실행
+ * @param ctx - 커맨드 컨텍스트
+ * @returns 새 세션 시작을 기록한 응답 결과, 프롬프트가 있으면 false
+ */
+async function handleNew(ctx: CommandContext): Promise<boolean | vscode.ChatResult> {
+  const { context, stream, config, prompt } = ctx;
+
+  if (prompt?.trim()) {
+    return false;
+  }
+
+  const sessionId = ChatSessionManager.findSessionId(context.history);
+
+  stream.markdown(`🆕 **New Session**\n\n`);
+  stream.markdown(
+    sessionId
+      ? `The next message to **@${config.cliRunner.name}** starts a new session. Session \`${sessionId}\` will no longer be resumed in this chat.`
+      : `The next message to **@${config.cliRunner.name}** starts a new session.`
+  );
+
+  // 다음 대화부터 이전 세션을 재개하지 않도록 응답 메타데이터에 새 세션 시작 기록
+  const metadata: ChatSessionMetadata = {
+    cli: config.cliRunner.name,
+    origin: 'new',
+    parentSessionId: sessionId,
+  };
+  return { metadata };
+}
+
+/**
+ * new 커맨드 설정
+ */
+export const newCommand: ParticipantCommand = {
+  name: 'new',
+  description: 'Start a new CLI session in this chat',
+  handler: handleNew,
+  sessionAction: 'new',
+};
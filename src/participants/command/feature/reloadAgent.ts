@@ -0,0 +1,40 @@
+/**
+ * /reload-agent 커맨드 구현
+ * 현재 Custom Agent 지침을 진행 중인 CLI 세션에 강제로 다시 전달합니다.
+ */
+
+import { ParticipantCommand, CommandContext } from '../types';
+
+/**
+ * 프롬프트 없이 실행했을 때 지침과 함께 전달할 요청
+ */
+const RELOAD_AGENT_PROMPT = 'Your agent instructions were reloaded. Briefly confirm that you will follow them from now on.';
+
+/**
+ * reload-agent 커맨드 핸들러
+ * Custom Agent가 선택되어 있으면 처리하지 않고 CLI 실행으로 넘김 (지침 강제 전달)
+ * @param ctx - 커맨드 컨텍스트
+ * @returns 커맨드 처리 완료 여부
+ */
+async function handleReloadAgent(ctx: CommandContext): Promise<boolean> {
+  const { stream, agentInstructions } = ctx;
+
+  if (agentInstructions) {
+    return false;
+  }
+
+  stream.markdown(`ℹ️ **No Custom Agent**\n\n`);
+  stream.markdown('Select a custom agent in the chat mode picker, then run `/reload-agent` to send its instructions.');
+  return true;
+}
+
+/**
+ * reload-agent 커맨드 설정
+ */
+export const reloadAgentCommand: ParticipantCommand = {
+  name: 'reload-agent',
+  description: 'Resend the current custom agent instructions to this session',
+  handler: handleReloadAgent,
+  forceAgentInstructions: true,
+  defaultPrompt: RELOAD_AGENT_PROMPT,
+};
@@ -1,10 +1,52 @@
 /**
  * /session 커맨드 구현
- * 현재 세션 정보를 표시합니다.
+ * 현재 세션 정보와 채팅의 세션 계보를 표시합니다.
  */
 
+import * as vscode from 'vscode';
 import { ParticipantCommand, CommandContext } from '../types';
-import { ChatSessionManager } from '../../session';
+import { ChatSessionManager, neutralizeMarkers } from '../../session';
+import { SessionLineageEntry } from '../../types';
+
+/**
+ * 세션 계보 항목의 시작 방식 설명
+ */
+function describeOrigin(entry: SessionLineageEntry): string {
+  switch (entry.origin) {
+    case 'new':
+      return 'new session';
+    case 'fork':
+      return `forked from \`${entry.parentSessionId}\``;
+    case 'rebuilt':
+      return `rebuilt from \`${entry.parentSessionId}\``;
+    default:
+      return 'started';
+  }
+}
+
+/**
+ * 세션 계보 출력 (세션이 두 개 이상일 때만)
+ * @param stream - 응답 스트림
+ * @param lineage - 오래된 세션부터 정렬된 세션 계보
+ * @param currentSessionId - 현재 세션 ID
+ */
+function renderLineage(
+  stream: vscode.ChatResponseStream,
+  lineage: SessionLineageEntry[],
+  currentSessionId: string | undefined
+): void {
+  if (lineage.length < 2) {
+    return;
+  }
+
+  stream.markdown(`\n\n🧬 **Session Lineage**\n\n`);
+  lineage.forEach((entry, index) => {
+    const turns = `${entry.turns} ${entry.turns === 1 ? 'turn' : 'turns'}`;
+    const current = entry.sessionId === currentSessionId ? ' *(current)*' : '';
+    // 세션 ID는 CLI가 보고한 값이므로 마커 형태 문자열 무력화
+    stream.markdown(neutralizeMarkers(`${index + 1}. \`${entry.sessionId}\` — ${describeOrigin(entry)} · ${turns}${current}\n`));
+  });
+}
 
 /**
  * session 커맨드 핸들러
@@ -16,19 +58,23 @@ async function handleSession(ctx: CommandContext): Promise<boolean> {
   const { cliRunner, name } = config;
 
   const sessionId = ChatSessionManager.findSessionId(context.history);
+  const lineage = ChatSessionManager.getSessionLineage(context.history);
 
   if (sessionId) {
     stream.markdown(`📍 **Current Session**\n\n`);
     stream.markdown(`- **CLI**: ${name}\n`);
-    stream.markdown(`- **Session ID**: \`${sessionId}\`\n\n`);
+    const displayId = neutralizeMarkers(sessionId);
+    stream.markdown(`- **Session ID**: \`${displayId}\`\n\n`);
     stream.markdown(
-      `> This session can be resumed using the CLI directly with:\n> \`\`\`\n> ${cliRunner.name} --resume ${sessionId}\n> \`\`\``
+      `> This session can be resumed using the CLI directly with:\n> \`\`\`\n> ${cliRunner.name} --resume ${displayId}\n> \`\`\``
     );
   } else {
     stream.markdown(`ℹ️ **No Active Session**\n\n`);
     stream.markdown(`Start a conversation with **@${cliRunner.name}** to create a new session.`);
   }
 
+  renderLineage(stream, lineage, sessionId);
+
   return true;
 }
 
@@ -37,6 +83,6 @@ async function handleSession(ctx: CommandContext): Promise<boolean> {
  */
 export const sessionCommand: ParticipantCommand = {
   name: 'session',
-  description: 'Show current session information',
+  description: 'Show current session information and session lineage',
   handler: handleSession,
 };
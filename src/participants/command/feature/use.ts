@@ -0,0 +1,63 @@
+/**
+ * /use 커맨드 구현
+ * @cli participant에서 사용할 커스텀 에이전트를 선택합니다.
+ */
+
+import { ParticipantCommand, CommandContext } from '../types';
+import { ChatSessionManager } from '../../session';
+import { CustomAgentRegistry, CUSTOM_AGENTS_FILE } from '../../feature/custom';
+
+/**
+ * use 커맨드 핸들러
+ * @param ctx - 커맨드 컨텍스트
+ * @returns 커맨드 처리 완료 여부
+ */
+async function handleUse(ctx: CommandContext): Promise<boolean> {
+  const { stream, config, prompt } = ctx;
+  const { agents, errors } = await CustomAgentRegistry.load();
+  const agentName = prompt?.trim();
+
+  for (const error of errors) {
+    stream.markdown(`⚠️ ${error}\n\n`);
+  }
+
+  if (agents.length === 0) {
+    stream.markdown(`ℹ️ **No Custom Agents**\n\n`);
+    stream.markdown(`Define agents in \`CCA.cli.agents\` or \`${CUSTOM_AGENTS_FILE}\`, then run \`/use <name>\`.`);
+    return true;
+  }
+
+  // 이름이 없으면 사용 가능한 에이전트 목록 표시
+  if (!agentName) {
+    stream.markdown(`🧩 **Custom Agents**\n\n`);
+    for (const agent of agents) {
+      const current = agent.name === config.cliRunner.name ? ' *(current)*' : '';
+      const description = agent.description ? ` — ${agent.description}` : '';
+      stream.markdown(`- \`${agent.name}\`${current}${description}\n`);
+    }
+    stream.markdown(`\nSelect one with \`/use <name>\`.`);
+    return true;
+  }
+
+  const agent = agents.find((candidate) => candidate.name === agentName);
+  if (!agent) {
+    stream.markdown(`❌ **Unknown Agent** \`${agentName}\`\n\n`);
+    stream.markdown(`Available agents: ${agents.map((candidate) => `\`${candidate.name}\``).join(', ')}`);
+    return true;
+  }
+
+  // 선택은 마커로 채팅 세션에 유지되며, 이후 대화는 새 CLI 세션으로 시작
+  ChatSessionManager.saveSelectedAgent(stream, agent.name);
+  stream.markdown(`✅ **Using \`${agent.name}\`**\n\n`);
+  stream.markdown(`Messages to **@cli** in this chat now run \`${agent.command}\`. The next message starts a new session.`);
+  return true;
+}
+
+/**
+ * use 커맨드 설정
+ */
+export const useCommand: ParticipantCommand = {
+  name: 'use',
+  description: 'Select the custom agent for @cli',
+  handler: handleUse,
+};
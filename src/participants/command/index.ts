@@ -9,11 +9,19 @@ export * from './types';
 export { doctorCommand } from './feature/doctor';
 export { sessionCommand } from './feature/session';
 export { handoffCommand } from './feature/handoff';
+export { useCommand } from './feature/use';
+export { reloadAgentCommand } from './feature/reloadAgent';
+export { newCommand } from './feature/new';
+export { forkCommand } from './feature/fork';
 
 import { ParticipantCommand } from './types';
 import { doctorCommand } from './feature/doctor';
 import { sessionCommand } from './feature/session';
 import { handoffCommand } from './feature/handoff';
+import { useCommand } from './feature/use';
+import { reloadAgentCommand } from './feature/reloadAgent';
+import { newCommand } from './feature/new';
+import { forkCommand } from './feature/fork';
 
 /**
  * 등록된 모든 Participant 커맨드 목록
@@ -22,6 +30,10 @@ export const participantCommands: ParticipantCommand[] = [
   doctorCommand,
   sessionCommand,
   handoffCommand,
+  useCommand,
+  reloadAgentCommand,
+  newCommand,
+  forkCommand,
 ];
 
 /**
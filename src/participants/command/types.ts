@@ -3,7 +3,7 @@
  */
 
 import * as vscode from 'vscode';
-import type { AgentInstructions, ParticipantConfig } from '../types';
+import type { AgentInstructions, ParticipantConfig, SessionOrigin } from '../types';
 
 /**
  * Participant Command 핸들러 컨텍스트
@@ -27,9 +27,9 @@ export interface CommandContext {
 
 /**
  * Participant Command 핸들러 함수 타입
- * @returns true면 커맨드 처리 완료, false면 다음 핸들러로 전달
+ * @returns true 또는 ChatResult면 커맨드 처리 완료 (ChatResult는 응답 결과로 반환), false면 다음 핸들러로 전달
  */
-export type CommandHandler = (ctx: CommandContext) => Promise<boolean>;
+export type CommandHandler = (ctx: CommandContext) => Promise<boolean | vscode.ChatResult>;
 
 /**
  * Participant Command 설정
@@ -41,4 +41,10 @@ export interface ParticipantCommand {
   description: string;
   /** 커맨드 핸들러 */
   handler: CommandHandler;
+  /** 핸들러가 처리하지 않아 CLI 실행으로 넘길 때 에이전트 지침을 다시 전달할지 여부 */
+  forceAgentInstructions?: boolean;
+  /** 핸들러가 처리하지 않아 CLI 실행으로 넘길 때 프롬프트가 비어 있으면 사용할 프롬프트 */
+  defaultPrompt?: string;
+  /** 핸들러가 처리하지 않아 CLI 실행으로 넘길 때 새 세션 시작(new) 또는 세션 분기(fork) */
+  sessionAction?: Extract<SessionOrigin, 'new' | 'fork'>;
 }
\ No newline at end of file
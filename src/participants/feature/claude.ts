@@ -3,14 +3,116 @@
  */
 
 import * as vscode from 'vscode';
-import { SpawnCliRunner, ParseResult } from '../../cli/spawnCliRunner';
-import { ClaudeStreamMessage, StreamContent, InstallInfo, HealthGuidance, AgentInstructions } from '../../cli/types';
-import { executeCommand } from '../../cli/spawnCliRunner';
+import {
+  SpawnCliRunner,
+  BudgetGuard,
+  LineParser,
+  ParseResult,
+  RunPreparation,
+  UsageCollector,
+  withToolDurations,
+} from '../../cli/spawnCliRunner';
+import {
+  ClaudeContentBlock,
+  ClaudePartialEvent,
+  ClaudeStreamMessage,
+  ClaudeUsage,
+  FileChangeEvent,
+  StreamEvent,
+  InstallInfo,
+  HealthGuidance,
+  AgentInstructions,
+  CliCommand,
+  CliOptions,
+  CliResult,
+  PermissionProfile,
+  StreamCallback,
+} from '../../cli/types';
+import { executeCommand, findExecutable, resolveExecutable } from '../../cli/spawnCliRunner';
+import { PersistentProcess, PersistentProcessPool } from '../../cli/persistentProcess';
+import { PermissionChannel, PERMISSION_PROMPT_TOOL, permissionBroker } from '../../cli/permissionBroker';
 import { ParticipantConfig } from '../types';
+import {
+  applyLaunchConfig,
+  getAgentInstructionsMode,
+  getBudgetConfig,
+  getPermissionProfileConfig,
+  prefixAgentInstructions,
+} from './utils';
+
+/**
+ * 인터럽트 요청 후 턴 종료를 기다리는 최대 시간 (밀리초)
+ * 이 시간 안에 result가 오지 않으면 프로세스를 종료하고 다음 턴에서 --resume으로 복구
+ */
+const INTERRUPT_GRACE_MS = 5000;
+
+/**
+ * 파일을 수정하는 Claude 도구 목록 (read-only 프로필에서 거부)
+ */
+const FILE_WRITE_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+/**
+ * 계획(할 일 목록) 갱신 도구 이름
+ */
+const TODO_TOOL = 'TodoWrite';
+
+/**
+ * 실행 단위 스트림 파싱 상태
+ */
+interface ClaudeStreamState {
+  /** 부분 메시지로 텍스트/추론이 이미 스트리밍된 메시지 ID (최종 assistant 메시지 중복 방지) */
+  streamedMessageIds: Set<string>;
+  /** 현재 스트리밍 중인 메시지 ID */
+  currentMessageId?: string;
+  /** 텍스트를 출력한 적 있는지 여부 (텍스트 블록 사이 구분용) */
+  hasText: boolean;
+  /** 세션 이벤트 출력 여부 */
+  sessionReported?: boolean;
+  /** 진행 중인 턴의 메시지별 사용량 (턴 도중 예산 확인용 중간 사용량 계산) */
+  messageUsage: Map<string, ClaudeUsage>;
+  /** 결과를 기다리는 파일 수정 도구의 변경 목록 (tool_use ID별, 성공한 경우에만 출력) */
+  pendingFileChanges: Map<string, FileChangeEvent>;
+}
+
+/**
+ * TodoWrite 도구 입력 항목
+ */
+interface ClaudeTodo {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+}
+
+/**
+ * 권한 프로필별 Claude --permission-mode 값
+ */
+const PERMISSION_MODES: Record<PermissionProfile, string> = {
+  'read-only': 'default',
+  'workspace-write': 'acceptEdits',
+  'full-auto': 'bypassPermissions',
+  custom: 'default',
+};
+
+/**
+ * 장기 실행 프로세스의 단일 턴 실행 결과
+ */
+interface PersistentTurnResult {
+  /** CLI 실행 결과 */
+  result: CliResult;
+  /** 턴 도중 프로세스가 비정상 종료되었는지 여부 */
+  crashed: boolean;
+  /** 턴에서 출력된 콘텐츠가 있는지 여부 */
+  producedOutput: boolean;
+}
 
 export class ClaudeCliRunner extends SpawnCliRunner {
   readonly name = 'claude';
 
+  /** 세션 ID 기준 장기 실행 프로세스 풀 */
+  private readonly processPool = new PersistentProcessPool();
+
+  /** 장기 실행 프로세스별 권한 요청 채널 */
+  private readonly permissionChannels = new WeakMap<PersistentProcess, PermissionChannel>();
+
   getArgumentOutputFormat(): string[] {
     return ['--output-format', 'stream-json', '--verbose', '--include-partial-messages'];
   }
@@ -18,8 +120,33 @@ export class ClaudeCliRunner extends SpawnCliRunner {
   getArgumentAllowedTools(): string[] {
     const config = vscode.workspace.getConfiguration('CCA');
     const useWebSearch = config.get<boolean>('claude.useWebSearch', false);
+    const { profile, allowedTools, disallowedTools } = getPermissionProfileConfig(this.name);
+
     // useWebSearch가 활성화되면 WebSearch, WebFetch 도구 추가
-    return useWebSearch ? ['--allowed-tools', 'WebSearch,WebFetch'] : [];
+    const allowed = useWebSearch ? ['WebSearch', 'WebFetch'] : [];
+    const disallowed: string[] = [];
+
+    if (profile === 'read-only') {
+      disallowed.push(...FILE_WRITE_TOOLS);
+    } else if (profile === 'custom') {
+      allowed.push(...allowedTools);
+      disallowed.push(...disallowedTools);
+    }
+
+    const args: string[] = [];
+    if (allowed.length > 0) {
+      args.push('--allowed-tools', allowed.join(','));
+    }
+    if (disallowed.length > 0) {
+      args.push('--disallowed-tools', disallowed.join(','));
+    }
+    // 도구 목록 옵션은 가변 인자이므로 단일 값 옵션을 뒤에 두어 이후 인자가 목록에 포함되지 않도록 함
+    args.push('--permission-mode', PERMISSION_MODES[profile] ?? 'default');
+    return args;
+  }
+
+  getPermissionProfile(): PermissionProfile {
+    return getPermissionProfileConfig(this.name).profile;
   }
 
   getArgumentModel(): string[] {
@@ -28,6 +155,14 @@ export class ClaudeCliRunner extends SpawnCliRunner {
     return model ? ['--model', model] : [];
   }
 
+  /**
+   * 턴당 최대 에이전트 턴 수 (CCA.claude.budget.maxTurns)
+   */
+  getArgumentMaxTurns(): string[] {
+    const { maxTurns } = getBudgetConfig(this.name);
+    return maxTurns ? ['--max-turns', String(maxTurns)] : [];
+  }
+
   getArgumentResume(sessionId?: string): string[] {
     return sessionId ? ['--resume', sessionId] : [];
   }
@@ -48,38 +183,62 @@ export class ClaudeCliRunner extends SpawnCliRunner {
     const { agentInstructions, prompt } = options;
     const args = [];
 
-    // agentInstructions가 있으면 JSON 형태로 agents 설정 추가
-    if (agentInstructions) {
-      const agentsConfig = JSON.stringify({
-        [agentInstructions.name]: {
-          description: `${agentInstructions.name} agent`,
-          prompt: agentInstructions.content
-        }
-      });
-
-      args.push('--agent', `'${agentInstructions.name}'`, '--agents', `'${agentsConfig}'`);
+    // native 방식이면 에이전트 지침을 기본 시스템 프롬프트 뒤에 추가
+    // (prefix 방식은 getStdinInput에서 프롬프트 앞에 추가)
+    if (agentInstructions && getAgentInstructionsMode() === 'native') {
+      args.push('--append-system-prompt', agentInstructions.content);
     }
 
-    // claude는 -p <prompt> 형태로 전달
+    // 프롬프트 본문은 stdin으로 전달하고 -p 플래그만 지정
     if (prompt) {
-      args.push('-p', prompt);
+      args.push('-p');
     }
 
     return args;
   }
 
+  /**
+   * 프롬프트는 stdin으로 전달 (`claude -p`는 stdin을 프롬프트로 사용)
+   */
+  protected getStdinInput(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    return this.formatPrompt(options);
+  }
+
+  /**
+   * `--resume <id> --fork-session`으로 기존 세션을 복제한 새 세션 생성 지원
+   */
+  supportsForkSession(): boolean {
+    return true;
+  }
+
+  /**
+   * 시스템 프롬프트로 주입한 지침은 세션에 저장되지 않으므로 native 방식에서는 매 실행마다 전달
+   */
+  requiresAgentInstructionsEachRun(): boolean {
+    return getAgentInstructionsMode() === 'native';
+  }
+
+  /**
+   * CLI에 보낼 사용자 메시지 (prefix 방식이면 에이전트 지침을 앞에 추가)
+   */
+  private formatPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    const { agentInstructions, prompt } = options;
+    if (prompt && agentInstructions && getAgentInstructionsMode() === 'prefix') {
+      return prefixAgentInstructions(agentInstructions, prompt);
+    }
+    return prompt;
+  }
+
   async checkInstallation(): Promise<InstallInfo> {
     try {
-      // which/where 명령으로 경로 확인 (spawn으로 안전하게 실행)
-      const whichCmd = process.platform === 'win32' ? 'where' : 'which';
-      const pathOutput = await executeCommand(whichCmd, ['claude'], 10000);
-      const cliPath = pathOutput
-        .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line.length > 0)[0];
+      // 실행 시와 동일한 실행 파일 설정(executablePath, extraArgs, env) 적용
+      const { command, args, env } = applyLaunchConfig(this.name, { command: 'claude', args: ['--version'] });
+
+      // which/where 명령으로 경로 확인 (실행 시 사용하는 경로와 동일)
+      const cliPath = await findExecutable(command);
 
       // 버전 확인 (spawn으로 안전하게 실행)
-      const versionOutput = await executeCommand('claude', ['--version'], 10000);
+      const versionOutput = await executeCommand(cliPath, args, 10000, env);
       const version = versionOutput.trim();
 
       return {
@@ -133,69 +292,506 @@ export class ClaudeCliRunner extends SpawnCliRunner {
     resumeSessionId?: string;
     agentInstructions?: AgentInstructions;
     prompt?: string;
-  }): { command: string; args: string[] } {
+  }): CliCommand {
     const { resumeSessionId } = options ?? {};
     const args: string[] = [];
 
     args.push(...this.getArgumentOutputFormat());
     args.push(...this.getArgumentAllowedTools());
     args.push(...this.getArgumentModel());
+    args.push(...this.getArgumentMaxTurns());
     args.push(...this.getArgumentResume(resumeSessionId));
     args.push(...this.getArgumentDirectories());
     args.push(...this.getArgumentPrompt({ agentInstructions: options?.agentInstructions, prompt: options?.prompt }));
 
-    return {
+    return applyLaunchConfig(this.name, {
       command: 'claude',
       args,
+    });
+  }
+
+  /**
+   * CLI 실행 (스트리밍)
+   * 장기 실행 프로세스 모드가 활성화되어 있으면 세션별 프로세스를 재사용
+   * 세션 포크는 원본 세션의 프로세스를 재사용하지 않도록 단발 실행
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const config = vscode.workspace.getConfiguration('CCA');
+    if (!config.get<boolean>('claude.persistentProcess', true) || options.forkSession) {
+      return super.run(options, onContent);
+    }
+
+    const budget = new BudgetGuard(options.budget, options.abortSignal);
+    const result = await this.runPersistent({ ...options, abortSignal: budget.signal }, budget.watch(onContent));
+    return budget.apply(result);
+  }
+
+  dispose(): void {
+    this.processPool.dispose();
+  }
+
+  /**
+   * 장기 실행 프로세스로 턴 실행
+   * 풀에 재사용 가능한 프로세스가 없거나 비정상 종료된 경우 --resume으로 새 프로세스를 생성
+   */
+  private async runPersistent(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const { agentInstructions, abortSignal, resumeSessionId, cwd } = options;
+    const signature = this.getPersistentSignature(cwd, agentInstructions);
+
+    let childProcess = resumeSessionId ? this.processPool.take(resumeSessionId) : undefined;
+
+    // 시스템 프롬프트에 추가한 에이전트 지침이나 설정(모델 등)이 바뀌면 프로세스 인자가 달라지므로 재생성
+    if (childProcess && childProcess.signature !== signature) {
+      childProcess.dispose();
+      childProcess = undefined;
+    }
+
+    const reused = childProcess !== undefined;
+    childProcess ??= await this.spawnPersistent(signature, { resumeSessionId, agentInstructions, cwd });
+
+    let turn = await this.runPersistentTurn(childProcess, options, onContent);
+
+    // 재사용한 프로세스가 출력 없이 종료된 경우 --resume으로 새 프로세스를 띄워 한 번 재시도
+    if (reused && turn.crashed && !turn.producedOutput && !abortSignal?.aborted) {
+      childProcess = await this.spawnPersistent(signature, { resumeSessionId, agentInstructions, cwd });
+      turn = await this.runPersistentTurn(childProcess, options, onContent);
+    }
+
+    const sessionId = turn.result.sessionId ?? resumeSessionId;
+    childProcess.setLineListener(undefined);
+    childProcess.setExitListener(undefined);
+
+    if (sessionId && childProcess.alive) {
+      const idleTimeoutSeconds = vscode.workspace
+        .getConfiguration('CCA')
+        .get<number>('claude.idleTimeoutSeconds', 600);
+      this.processPool.release(sessionId, childProcess, idleTimeoutSeconds * 1000);
+    } else {
+      childProcess.dispose();
+    }
+
+    return turn.result;
+  }
+
+  /**
+   * 프로세스 재사용 가능 여부 판단용 서명 생성
+   * 턴마다 달라지는 인자(resume, 프롬프트)는 제외하고, 시스템 프롬프트로 주입하는 에이전트 지침은 포함
+   */
+  private getPersistentSignature(cwd?: string, agentInstructions?: AgentInstructions): string {
+    const { command, args, env } = this.buildCliOptions({ agentInstructions });
+    return JSON.stringify({ command, args, env, cwd });
+  }
+
+  /**
+   * 권한 요청 MCP 서버 연결 인자
+   * @param channel - 권한 요청 채널
+   */
+  private getArgumentPermissionPrompt(channel: PermissionChannel): string[] {
+    return [
+      '--mcp-config', permissionBroker.getMcpConfig(channel),
+      '--permission-prompt-tool', PERMISSION_PROMPT_TOOL,
+    ];
+  }
+
+  /**
+   * 실행 준비: 세션 포크 인자 추가, 권한 요청 처리 함수가 있으면 권한 요청 채널을 만들어 MCP 서버 연결
+   */
+  protected async prepareRun(options: CliOptions): Promise<RunPreparation> {
+    const forkArgs = options.forkSession && options.resumeSessionId ? ['--fork-session'] : [];
+    if (!options.onPermissionRequest) {
+      return { extraArgs: forkArgs };
+    }
+
+    const channel = await permissionBroker.createChannel(this.name, options.onPermissionRequest);
+    return {
+      extraArgs: [...forkArgs, ...this.getArgumentPermissionPrompt(channel)],
+      cleanup: () => channel.dispose(),
     };
   }
 
-  protected parseLineWithSession(line: string): ParseResult {
+  /**
+   * stream-json 입력을 받는 장기 실행 프로세스 생성
+   * 권한 요청 채널은 프로세스 단위로 만들고, 처리 함수는 턴마다 교체
+   */
+  private async spawnPersistent(
+    signature: string,
+    options: { resumeSessionId?: string; agentInstructions?: AgentInstructions; cwd?: string }
+  ): Promise<PersistentProcess> {
+    const { command, args, env } = this.buildCliOptions({
+      resumeSessionId: options.resumeSessionId,
+      agentInstructions: options.agentInstructions,
+    });
+    const channel = await permissionBroker.createChannel(this.name);
+
+    // 프롬프트는 stdin으로 전달하므로 -p 플래그만 지정
+    args.push('-p', '--input-format', 'stream-json');
+    args.push(...this.getArgumentPermissionPrompt(channel));
+
+    const childProcess = new PersistentProcess({
+      command: await resolveExecutable(command),
+      args,
+      env,
+      cwd: options.cwd,
+      signature,
+      onClose: () => channel.dispose(),
+    });
+    this.permissionChannels.set(childProcess, channel);
+
+    return childProcess;
+  }
+
+  /**
+   * 장기 실행 프로세스에 사용자 메시지를 전송하고 result 메시지까지 스트리밍
+   * 취소 시 프로세스를 종료하지 않고 interrupt 제어 요청으로 현재 턴만 중단
+   */
+  private runPersistentTurn(
+    childProcess: PersistentProcess,
+    options: CliOptions,
+    onContent: StreamCallback
+  ): Promise<PersistentTurnResult> {
+    const { abortSignal, killGraceMs } = options;
+    const prompt = this.formatPrompt(options) ?? '';
+    const channel = this.permissionChannels.get(childProcess);
+    if (channel) {
+      channel.handler = options.onPermissionRequest;
+    }
+
+    return new Promise((resolve) => {
+      const emit = withToolDurations(onContent);
+      const parseLine = this.createLineParser();
+      const usage = new UsageCollector();
+      let fullContent = '';
+      let sessionId: string | undefined;
+      let producedOutput = false;
+      let settled = false;
+      let interruptTimer: NodeJS.Timeout | undefined;
+
+      const finish = (result: CliResult, crashed: boolean) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(interruptTimer);
+        abortSignal?.removeEventListener('abort', abortHandler);
+        if (channel) {
+          channel.handler = undefined;
+        }
+        resolve({ result: { ...result, usage: usage.result }, crashed, producedOutput });
+      };
+
+      const abortHandler = () => {
+        childProcess.send({
+          type: 'control_request',
+          request_id: `interrupt-${Date.now()}`,
+          request: { subtype: 'interrupt' },
+        });
+        // 인터럽트에 응답하지 않으면 프로세스 종료 (세션은 --resume으로 복구 가능)
+        interruptTimer = setTimeout(() => childProcess.dispose(killGraceMs), INTERRUPT_GRACE_MS);
+      };
+
+      childProcess.setLineListener((line) => {
+        const cleanLine = this.cleanAnsi(line).trim();
+        if (!cleanLine.startsWith('{')) {
+          return;
+        }
+
+        const parseResult = parseLine(cleanLine);
+        if (parseResult.sessionId && !sessionId) {
+          sessionId = parseResult.sessionId;
+        }
+        for (const event of parseResult.events) {
+          producedOutput = true;
+          if (event.type === 'text') {
+            fullContent += event.content;
+          }
+          usage.collect(event);
+          emit(event);
+        }
+
+        let message: ClaudeStreamMessage;
+        try {
+          message = JSON.parse(cleanLine) as ClaudeStreamMessage;
+        } catch {
+          return;
+        }
+
+        // result 메시지가 턴 종료를 의미
+        if (message.type === 'result') {
+          if (abortSignal?.aborted) {
+            finish({ success: false, content: fullContent, error: 'Interrupted by user', sessionId, cancelled: true }, false);
+          } else if (message.is_error) {
+            finish({ success: false, content: fullContent, error: message.result || 'Claude CLI reported an error', sessionId }, false);
+          } else {
+            finish({ success: true, content: fullContent, sessionId }, false);
+          }
+        }
+      });
+
+      childProcess.setExitListener((exitCode, stderr) => {
+        const cancelled = abortSignal?.aborted;
+        const error = cancelled
+          ? 'Interrupted by user'
+          : `Process exited with code ${exitCode}${stderr ? `\nStderr: ${stderr}` : ''}`;
+        finish({ success: false, content: fullContent, error, sessionId, cancelled }, true);
+      });
+
+      if (abortSignal?.aborted) {
+        finish({ success: false, content: '', error: 'Interrupted by user', cancelled: true }, false);
+        return;
+      }
+      abortSignal?.addEventListener('abort', abortHandler);
+
+      const sent = childProcess.send({
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [{ type: 'text', text: prompt }],
+        },
+      });
+      if (!sent) {
+        finish({ success: false, content: '', error: 'Failed to write to Claude CLI process' }, true);
+      }
+    });
+  }
+
+  /**
+   * 실행 단위 라인 파서 생성 (부분 메시지 스트리밍 상태 유지)
+   */
+  protected createLineParser(): LineParser {
+    const state: ClaudeStreamState = {
+      streamedMessageIds: new Set(),
+      hasText: false,
+      messageUsage: new Map(),
+      pendingFileChanges: new Map(),
+    };
+    return (line) => this.parseLineWithSession(line, state);
+  }
+
+  protected parseLineWithSession(
+    line: string,
+    state: ClaudeStreamState = {
+      streamedMessageIds: new Set(),
+      hasText: false,
+      messageUsage: new Map(),
+      pendingFileChanges: new Map(),
+    }
+  ): ParseResult {
     try {
       const message = JSON.parse(line) as ClaudeStreamMessage;
-      let content: StreamContent | null = null;
-
-      if (message.type === 'assistant' && message.message?.content) {
-        for (const item of message.message.content) {
-          // tool_use 타입 처리
-          if (item.type === 'tool_use') {
-            content = {
-              type: 'tool_use',
-              content: item.name || 'tool',
-              toolName: item.name,
-            };
-            break;
+      const events: StreamEvent[] = [];
+
+      switch (message.type) {
+        case 'system':
+          if (message.subtype === 'init' && message.session_id) {
+            state.sessionReported = true;
+            events.push({ type: 'session', sessionId: message.session_id, model: message.model });
           }
+          break;
 
-          // tool_result 타입 처리
-          if (item.type === 'tool_result') {
-            content = {
-              type: 'tool_result',
-              content: item.content || '',
-              toolName: item.name,
-            };
-            break;
+        // 부분 메시지: 텍스트/추론 증분을 토큰 단위로 스트리밍
+        case 'stream_event':
+          if (message.event) {
+            events.push(...this.toPartialEvents(message.event, state));
           }
-          
-          // text 타입 처리
-          if (item.type === 'text' && item.text) {
-            content = {
-              type: 'text',
-              content: item.text,
-            };
-            break;
+          break;
+
+        // 어시스턴트 메시지는 여러 콘텐츠 블록(text, thinking, tool_use)을 포함
+        // 부분 메시지로 이미 스트리밍된 텍스트/추론은 건너뛰고 도구 호출만 처리
+        case 'assistant': {
+          // 재사용된 장기 실행 프로세스는 init 메시지가 없으므로 첫 응답에서 세션/모델 정보 보고
+          if (!state.sessionReported && message.session_id) {
+            state.sessionReported = true;
+            events.push({ type: 'session', sessionId: message.session_id, model: message.message?.model });
+          }
+          if (message.message?.id && message.message.usage) {
+            events.push(this.recordMessageUsage(state, message.message.id, message.message.usage));
+          }
+          const streamed = !!message.message?.id && state.streamedMessageIds.has(message.message.id);
+          for (const block of message.message?.content ?? []) {
+            if (streamed && (block.type === 'text' || block.type === 'thinking')) {
+              continue;
+            }
+            if (block.type === 'text' && block.text && state.hasText) {
+              events.push({ type: 'text', content: '\n\n' });
+            }
+            events.push(...this.toAssistantEvents(block, state));
+            if (block.type === 'text' && block.text) {
+              state.hasText = true;
+            }
           }
+          break;
         }
+
+        // 도구 결과는 user 메시지의 tool_result 블록으로 전달됨
+        // 파일 변경은 도구가 성공한 경우에만 출력
+        case 'user':
+          for (const block of message.message?.content ?? []) {
+            if (block.type === 'tool_result') {
+              events.push({
+                type: 'tool_end',
+                toolId: block.tool_use_id,
+                status: block.is_error ? 'error' : 'success',
+                output: this.formatToolResult(block.content),
+              });
+              const fileChange = block.tool_use_id ? state.pendingFileChanges.get(block.tool_use_id) : undefined;
+              if (fileChange) {
+                state.pendingFileChanges.delete(block.tool_use_id!);
+                if (!block.is_error) {
+                  events.push(fileChange);
+                }
+              }
+            }
+          }
+          break;
+
+        // 최종 사용량이 턴의 중간 사용량을 대체
+        case 'result':
+          state.messageUsage.clear();
+          events.push({
+            type: 'usage',
+            inputTokens: message.usage?.input_tokens,
+            outputTokens: message.usage?.output_tokens,
+            cachedInputTokens: message.usage?.cache_read_input_tokens,
+            costUsd: message.total_cost_usd,
+            durationMs: message.duration_ms,
+          });
+          break;
       }
 
       return {
-        content,
+        events,
         sessionId: message.session_id,
       };
     } catch {
       // JSON 파싱 실패 시 무시
-      return { content: null };
+      return { events: [] };
+    }
+  }
+
+  /**
+   * 부분 메시지 이벤트를 스트리밍 이벤트로 변환
+   * 도구 호출은 입력이 완성된 최종 assistant 메시지에서 처리
+   */
+  private toPartialEvents(event: ClaudePartialEvent, state: ClaudeStreamState): StreamEvent[] {
+    switch (event.type) {
+      case 'message_start':
+        state.currentMessageId = event.message?.id;
+        if (state.currentMessageId && event.message?.usage) {
+          return [this.recordMessageUsage(state, state.currentMessageId, event.message.usage)];
+        }
+        return [];
+
+      // 출력 토큰 누적값 (메시지 생성 중 갱신)
+      case 'message_delta':
+        if (state.currentMessageId && event.usage) {
+          return [this.recordMessageUsage(state, state.currentMessageId, event.usage)];
+        }
+        return [];
+
+      case 'content_block_start':
+        // 새 텍스트 블록은 이전 텍스트와 문단으로 구분
+        if (event.content_block?.type === 'text' && state.hasText) {
+          return [{ type: 'text', content: '\n\n' }];
+        }
+        return [];
+
+      case 'content_block_delta': {
+        const delta = event.delta;
+        if (delta?.type === 'text_delta' && delta.text) {
+          this.markStreamed(state);
+          state.hasText = true;
+          return [{ type: 'text', content: delta.text }];
+        }
+        if (delta?.type === 'thinking_delta' && delta.thinking) {
+          this.markStreamed(state);
+          return [{ type: 'reasoning', content: delta.thinking }];
+        }
+        return [];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 메시지 사용량을 기록하고 진행 중인 턴의 중간 사용량 이벤트 생성
+   * 같은 메시지의 사용량은 누적값이므로 덮어쓰고, 턴 전체는 메시지별 사용량의 합
+   */
+  private recordMessageUsage(state: ClaudeStreamState, messageId: string, usage: ClaudeUsage): StreamEvent {
+    const previous = state.messageUsage.get(messageId);
+    state.messageUsage.set(messageId, { ...previous, ...usage });
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cachedInputTokens = 0;
+    for (const entry of state.messageUsage.values()) {
+      inputTokens += entry.input_tokens ?? 0;
+      outputTokens += entry.output_tokens ?? 0;
+      cachedInputTokens += entry.cache_read_input_tokens ?? 0;
+    }
+    return { type: 'usage', inputTokens, outputTokens, cachedInputTokens, partial: true };
+  }
+
+  /**
+   * 현재 메시지를 부분 메시지로 스트리밍된 것으로 표시
+   */
+  private markStreamed(state: ClaudeStreamState): void {
+    if (state.currentMessageId) {
+      state.streamedMessageIds.add(state.currentMessageId);
+    }
+  }
+
+  /**
+   * 어시스턴트 콘텐츠 블록을 스트리밍 이벤트로 변환
+   * 파일 수정 도구는 결과를 받을 때까지 변경 목록을 보류
+   */
+  private toAssistantEvents(block: ClaudeContentBlock, state: ClaudeStreamState): StreamEvent[] {
+    switch (block.type) {
+      case 'text':
+        return block.text ? [{ type: 'text', content: block.text }] : [];
+
+      case 'thinking':
+        return block.thinking ? [{ type: 'reasoning', content: block.thinking }] : [];
+
+      case 'tool_use': {
+        const toolName = block.name || 'tool';
+        const params = block.input ?? {};
+        const events: StreamEvent[] = [{ type: 'tool_start', toolId: block.id, toolName, params }];
+
+        if (toolName === TODO_TOOL && Array.isArray(params.todos)) {
+          const todos = params.todos as ClaudeTodo[];
+          events.push({
+            type: 'plan',
+            entries: todos.map((todo) => ({ content: todo.content, status: todo.status })),
+          });
+        }
+
+        const filePath = params.file_path ?? params.notebook_path;
+        if (FILE_WRITE_TOOLS.includes(toolName) && typeof filePath === 'string' && block.id) {
+          // Write는 새 파일 생성과 덮어쓰기를 구분할 수 없으므로 종류를 지정하지 않음
+          const kind = toolName === 'Write' ? undefined : 'update';
+          state.pendingFileChanges.set(block.id, { type: 'file_change', changes: [{ path: filePath, kind }] });
+        }
+        return events;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * tool_result 콘텐츠를 텍스트로 변환
+   */
+  private formatToolResult(content: ClaudeContentBlock['content']): string {
+    if (typeof content === 'string') {
+      return content;
     }
+    return (content ?? [])
+      .map((item) => item.text ?? '')
+      .filter((text) => text.length > 0)
+      .join('\n');
   }
 }
 
@@ -4,13 +4,81 @@
 
 import * as vscode from 'vscode';
 import { SpawnCliRunner, ParseResult } from '../../cli/spawnCliRunner';
-import { CodexStreamMessage, StreamContent, InstallInfo, HealthGuidance, AgentInstructions } from '../../cli/types';
-import { executeCommand } from '../../cli/spawnCliRunner';
+import {
+  CodexItem,
+  CodexStreamMessage,
+  StreamEvent,
+  InstallInfo,
+  HealthGuidance,
+  AgentInstructions,
+  CliCommand,
+  CliOptions,
+  CliResult,
+  PermissionProfile,
+  StreamCallback,
+} from '../../cli/types';
+import { executeCommand, findExecutable, logDebug } from '../../cli/spawnCliRunner';
+import { CodexAppServerRunner } from '../../cli/codexAppServerRunner';
 import { ParticipantConfig } from '../types';
+import { applyLaunchConfig, getAgentInstructionsMode, getPermissionProfileConfig } from './utils';
+
+/**
+ * 권한 프로필별 Codex 샌드박스/승인 정책
+ * custom 프로필은 Codex에 도구 단위 목록이 없으므로 사용자의 config.toml 설정을 그대로 사용
+ */
+const SANDBOX_POLICIES: Partial<Record<PermissionProfile, { sandbox: string; approval: string }>> = {
+  'read-only': { sandbox: 'read-only', approval: 'on-request' },
+  'workspace-write': { sandbox: 'workspace-write', approval: 'on-request' },
+  'full-auto': { sandbox: 'danger-full-access', approval: 'never' },
+};
 
 export class CodexCliRunner extends SpawnCliRunner {
   readonly name = 'codex';
 
+  /** app-server(JSON-RPC) 백엔드 Runner */
+  private readonly appServerRunner = new CodexAppServerRunner(this, {
+    buildCommand: () => applyLaunchConfig(this.name, {
+      command: 'codex',
+      // --enable 등 기능 플래그는 서브커맨드 앞에 위치해야 함
+      args: [...this.getArgumentAllowedTools(), 'app-server'],
+    }),
+    getTurnSettings: () => {
+      const config = vscode.workspace.getConfiguration('CCA');
+      const policy = SANDBOX_POLICIES[getPermissionProfileConfig(this.name).profile];
+      return {
+        model: config.get<string>('codex.model') || undefined,
+        effort: config.get<string>('codex.reasoningEffort') || undefined,
+        sandbox: policy?.sandbox,
+        approvalPolicy: policy?.approval,
+      };
+    },
+  });
+
+  /**
+   * CLI 실행 (스트리밍)
+   * CCA.codex.backend 설정이 app-server이면 app-server Runner로 실행하고,
+   * app-server를 시작할 수 없으면 exec 경로로 대체
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const config = vscode.workspace.getConfiguration('CCA');
+    if (config.get<string>('codex.backend', 'exec') !== 'app-server') {
+      return super.run(options, onContent);
+    }
+
+    try {
+      await this.appServerRunner.start(options.cwd);
+    } catch (error) {
+      logDebug('Codex app-server unavailable, falling back to exec:', error);
+      return super.run(options, onContent);
+    }
+
+    return this.appServerRunner.run(options, onContent);
+  }
+
+  dispose(): void {
+    this.appServerRunner.dispose();
+  }
+
   getArgumentOutputFormat(): string[] {
     // JSONL 형식으로 이벤트 출력
     return ['--json'];
@@ -19,9 +87,24 @@ export class CodexCliRunner extends SpawnCliRunner {
   getArgumentAllowedTools(): string[] {
     const config = vscode.workspace.getConfiguration('CCA');
     const useWebSearch = config.get<boolean>('codex.useWebSearch', false);
-    
+    const args: string[] = [];
+
+    // --sandbox / --ask-for-approval과 동일한 설정을 -c 옵션으로 재정의
+    // (exec와 app-server 서브커맨드 모두에서 동작)
+    const policy = SANDBOX_POLICIES[getPermissionProfileConfig(this.name).profile];
+    if (policy) {
+      args.push('-c', `sandbox_mode="${policy.sandbox}"`, '-c', `approval_policy="${policy.approval}"`);
+    }
+
     // --enable 옵션으로 web_search_request feature 활성화
-    return useWebSearch ? ['--enable', 'web_search_request'] : [];
+    if (useWebSearch) {
+      args.push('--enable', 'web_search_request');
+    }
+    return args;
+  }
+
+  getPermissionProfile(): PermissionProfile {
+    return getPermissionProfileConfig(this.name).profile;
   }
 
   getArgumentModel(): string[] {
@@ -69,7 +152,7 @@ export class CodexCliRunner extends SpawnCliRunner {
   getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
     const { agentInstructions, prompt } = options;
 
-    // Codex CLI는 --system-prompt 옵션이 없으므로
+    // prefix 방식과 app-server 백엔드에서는
     // 에이전트 지침을 사용자 프롬프트 앞에 추가하여 전달
     let finalPrompt = prompt ?? '';
 
@@ -87,22 +170,51 @@ export class CodexCliRunner extends SpawnCliRunner {
       ].join('\n');
     }
 
-    // codex exec는 프롬프트를 positional argument로 전달
+    // 프롬프트 텍스트 (exec는 stdin, app-server는 turn/start 입력으로 전달)
     return [finalPrompt];
   }
 
+  /**
+   * 프롬프트와 에이전트 지침은 stdin으로 전달 (`codex exec -`)
+   * native 방식이면 지침은 developer_instructions 설정으로 전달하고 프롬프트만 전달
+   */
+  protected getStdinInput(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    if (getAgentInstructionsMode() === 'native') {
+      return options.prompt ?? '';
+    }
+    return this.getArgumentPrompt(options)[0];
+  }
+
+  /**
+   * developer_instructions 설정은 세션에 저장되지 않으므로 native 방식의 exec 실행에서는 매번 전달
+   */
+  requiresAgentInstructionsEachRun(): boolean {
+    const config = vscode.workspace.getConfiguration('CCA');
+    return getAgentInstructionsMode() === 'native' && config.get<string>('codex.backend', 'exec') !== 'app-server';
+  }
+
+  /**
+   * native 방식의 에이전트 지침 인자 (developer_instructions 설정 재정의)
+   * @param agentInstructions - 에이전트 지침
+   */
+  private getArgumentInstructions(agentInstructions?: AgentInstructions): string[] {
+    if (!agentInstructions || getAgentInstructionsMode() !== 'native') {
+      return [];
+    }
+    // -c 값은 TOML로 해석되므로 JSON 문자열(TOML 기본 문자열과 호환)로 인용
+    return ['-c', `developer_instructions=${JSON.stringify(agentInstructions.content)}`];
+  }
+
   async checkInstallation(): Promise<InstallInfo> {
     try {
-      // which/where 명령으로 경로 확인 (spawn으로 안전하게 실행)
-      const whichCmd = process.platform === 'win32' ? 'where' : 'which';
-      const pathOutput = await executeCommand(whichCmd, ['codex'], 10000);
-      const cliPath = pathOutput
-        .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line.length > 0)[0];
+      // 실행 시와 동일한 실행 파일 설정(executablePath, extraArgs, env) 적용
+      const { command, args, env } = applyLaunchConfig(this.name, { command: 'codex', args: ['--version'] });
+
+      // which/where 명령으로 경로 확인 (실행 시 사용하는 경로와 동일)
+      const cliPath = await findExecutable(command);
 
       // 버전 확인 (spawn으로 안전하게 실행)
-      const versionOutput = await executeCommand('codex', ['--version'], 10000);
+      const versionOutput = await executeCommand(cliPath, args, 10000, env);
       const version = versionOutput.trim();
 
       return {
@@ -156,16 +268,19 @@ export class CodexCliRunner extends SpawnCliRunner {
     resumeSessionId?: string;
     agentInstructions?: AgentInstructions;
     prompt?: string;
-  }): { command: string; args: string[] } {
-    const { resumeSessionId } = options ?? {};
+  }): CliCommand {
+    const { resumeSessionId, agentInstructions } = options ?? {};
     const args: string[] = [];
 
     // Codex는 'exec' 서브커맨드 사용
     args.push('exec');
 
+    // 에이전트 지침 (native 방식, resume 전에)
+    args.push(...this.getArgumentInstructions(agentInstructions));
+
     // Session resume 처리
     // codex exec resume는 resume 뒤에 session-id와 prompt만 받으므로
-    // 옵션들을 먼저 배치하고 resume [session-id] [prompt]를 마지막에 추가
+    // 옵션들을 먼저 배치하고 resume [session-id] -를 마지막에 추가
     if (resumeSessionId) {
       // 디렉토리 옵션 (resume 전에)
       args.push(...this.getArgumentDirectories());
@@ -173,7 +288,7 @@ export class CodexCliRunner extends SpawnCliRunner {
       // 출력 형식 (resume 전에)
       args.push(...this.getArgumentOutputFormat());
 
-      // 웹 검색 옵션 (resume 전에)
+      // 권한/웹 검색 옵션 (resume 전에)
       args.push(...this.getArgumentAllowedTools());
 
       // 모델 옵션 (resume 전에)
@@ -182,8 +297,8 @@ export class CodexCliRunner extends SpawnCliRunner {
       // resume 서브커맨드와 session-id
       args.push(...this.getArgumentResume(resumeSessionId));
 
-      // 프롬프트 (마지막에 추가)
-      args.push(...this.getArgumentPrompt({ agentInstructions: options?.agentInstructions, prompt: options?.prompt }));
+      // 프롬프트는 stdin으로 전달 (마지막에 `-` 추가)
+      args.push('-');
     } else {
       // 일반 exec 모드
       // 디렉토리 옵션
@@ -192,106 +307,195 @@ export class CodexCliRunner extends SpawnCliRunner {
       // 출력 형식
       args.push(...this.getArgumentOutputFormat());
 
-      // 웹 검색 옵션
+      // 권한/웹 검색 옵션
       args.push(...this.getArgumentAllowedTools());
 
       // 모델 옵션
       args.push(...this.getArgumentModel());
 
-      // 프롬프트 (마지막에 추가)
-      args.push(...this.getArgumentPrompt({ agentInstructions: options?.agentInstructions, prompt: options?.prompt }));
+      // 프롬프트는 stdin으로 전달 (마지막에 `-` 추가)
+      args.push('-');
     }
 
-    return {
+    return applyLaunchConfig(this.name, {
       command: 'codex',
       args,
-    };
+    });
   }
 
   protected parseLineWithSession(line: string): ParseResult {
     try {
       const message = JSON.parse(line) as CodexStreamMessage;
-      let content: StreamContent | null = null;
+      const events: StreamEvent[] = [];
       let sessionId: string | undefined;
+      let failure: string | undefined;
+
+      switch (message.type) {
+        // thread.started에서 세션 ID 추출
+        case 'thread.started':
+          if (message.thread_id) {
+            sessionId = message.thread_id;
+            // exec JSONL은 모델을 보고하지 않으므로 설정된 모델 사용
+            const model = vscode.workspace.getConfiguration('CCA').get<string>('codex.model') || undefined;
+            events.push({ type: 'session', sessionId, model });
+          }
+          break;
 
-      // thread.started에서 세션 ID 추출
-      if (message.type === 'thread.started' && message.thread_id) {
-        sessionId = message.thread_id;
-      }
-
-      // item.completed 이벤트 처리
-      if (message.type === 'item.completed' && message.item) {
-        const item = message.item;
-
-        // agent_message: 텍스트 응답
-        if (item.type === 'agent_message' && item.text) {
-          content = {
-            type: 'text',
-            content: item.text,
-          };
-        }
+        // item.started 이벤트 처리 (도구 시작)
+        case 'item.started':
+          if (message.item) {
+            events.push(...this.toStartedEvents(message.item));
+          }
+          break;
 
-        // command_execution: 도구 사용 (셸 명령어 실행)
-        else if (item.type === 'command_execution') {
-          // 명령어 실행 완료 시 tool_result로 처리
-          if (item.status === 'completed' || item.status === 'failed') {
-            content = {
-              type: 'tool_result',
-              content: item.aggregated_output || '',
-              toolName: 'shell',
-            };
+        // item.updated 이벤트 처리 (진행 중인 할 일 목록 갱신)
+        case 'item.updated':
+          if (message.item?.type === 'todo_list') {
+            events.push(this.toPlanEvent(message.item));
           }
-        }
+          break;
 
-        // mcp_tool_call: MCP 도구 호출
-        else if (item.type === 'mcp_tool_call') {
-          if (item.status === 'in_progress') {
-            content = {
-              type: 'tool_use',
-              content: item.tool || 'mcp_tool',
-              toolName: item.tool,
-            };
-          } else if (item.status === 'completed') {
-            content = {
-              type: 'tool_result',
-              content: '',
-              toolName: item.tool,
-            };
+        // item.completed 이벤트 처리
+        case 'item.completed':
+          if (message.item) {
+            events.push(...this.toCompletedEvents(message.item));
           }
-        }
+          break;
+
+        // turn.completed에서 사용량 추출
+        case 'turn.completed':
+          if (message.usage) {
+            events.push({
+              type: 'usage',
+              inputTokens: message.usage.input_tokens,
+              outputTokens: message.usage.output_tokens,
+              cachedInputTokens: message.usage.cached_input_tokens,
+            });
+          }
+          break;
 
-        // reasoning: 추론 과정
-        else if (item.type === 'reasoning' && item.text) {
-          content = {
-            type: 'reasoning',
-            content: item.text,
-          };
-        }
-      }
+        // turn.failed, error: 복구할 수 없는 실패 (종료 코드와 관계없이 실행 실패로 처리)
+        case 'turn.failed':
+          failure = message.error?.message || 'Codex turn failed';
+          break;
 
-      // item.started 이벤트 처리 (tool_use 시작)
-      if (message.type === 'item.started' && message.item) {
-        const item = message.item;
-
-        // command_execution 시작
-        if (item.type === 'command_execution' && item.command) {
-          content = {
-            type: 'tool_use',
-            content: item.command,
-            toolName: 'shell',
-          };
-        }
+        case 'error':
+          failure = message.message || 'Codex reported an error';
+          break;
       }
 
       return {
-        content,
+        events,
         sessionId,
+        failure,
       };
     } catch {
       // JSON 파싱 실패 시 무시
-      return { content: null };
+      return { events: [] };
+    }
+  }
+
+  /**
+   * item.started 아이템을 스트리밍 이벤트로 변환
+   */
+  private toStartedEvents(item: CodexItem): StreamEvent[] {
+    switch (item.type) {
+      // command_execution: 셸 명령어 실행 시작
+      case 'command_execution':
+        return [{ type: 'tool_start', toolId: item.id, toolName: 'shell', params: { command: item.command ?? '' } }];
+
+      // mcp_tool_call: MCP 도구 호출 시작
+      case 'mcp_tool_call':
+        return [{
+          type: 'tool_start',
+          toolId: item.id,
+          toolName: item.tool || 'mcp_tool',
+          params: { server: item.server, arguments: item.arguments },
+        }];
+
+      // todo_list: 계획 시작
+      case 'todo_list':
+        return [this.toPlanEvent(item)];
+
+      default:
+        return [];
     }
   }
+
+  /**
+   * item.completed 아이템을 스트리밍 이벤트로 변환
+   */
+  private toCompletedEvents(item: CodexItem): StreamEvent[] {
+    switch (item.type) {
+      // agent_message: 텍스트 응답
+      case 'agent_message':
+        return item.text ? [{ type: 'text', content: item.text }] : [];
+
+      // reasoning: 추론 과정 (항목 단위이므로 다음 추론 항목과 문단으로 구분)
+      case 'reasoning':
+        return item.text ? [{ type: 'reasoning', content: `${item.text}\n\n` }] : [];
+
+      // command_execution: 명령어 실행 완료
+      case 'command_execution':
+        return [{
+          type: 'tool_end',
+          toolId: item.id,
+          toolName: 'shell',
+          status: item.status === 'declined'
+            ? 'declined'
+            : item.status === 'failed' || (item.exit_code ?? 0) !== 0 ? 'error' : 'success',
+          output: item.aggregated_output || '',
+          exitCode: item.exit_code,
+        }];
+
+      // mcp_tool_call: MCP 도구 호출 완료
+      case 'mcp_tool_call':
+        return [{
+          type: 'tool_end',
+          toolId: item.id,
+          toolName: item.tool,
+          status: item.status === 'failed' ? 'error' : 'success',
+          output: item.error?.message
+            ?? item.result?.content?.map((content) => content.text ?? '').join('\n'),
+        }];
+
+      // web_search: 검색 시작 시점에는 검색어가 비어 있을 수 있으므로 완료 시 시작/종료를 함께 생성
+      case 'web_search':
+        return [
+          { type: 'tool_start', toolId: item.id, toolName: 'web_search', params: { query: item.query ?? '' } },
+          { type: 'tool_end', toolId: item.id, toolName: 'web_search', status: 'success' },
+        ];
+
+      // error: 실행은 계속되는 에러 (예: 재연결 알림)
+      case 'error':
+        return item.message ? [{ type: 'error', message: item.message }] : [];
+
+      // file_change: 패치 적용 완료
+      // exec JSON 이벤트는 경로와 변경 종류만 제공하므로 줄 수 요약 없이 표시 (diff는 app-server 백엔드에서만 제공)
+      case 'file_change':
+        return item.status === 'failed' ? [] : [{ type: 'file_change', changes: item.changes ?? [] }];
+
+      // todo_list: 최종 계획 상태
+      case 'todo_list':
+        return [this.toPlanEvent(item)];
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * todo_list 아이템을 계획 이벤트로 변환
+   */
+  private toPlanEvent(item: CodexItem): StreamEvent {
+    return {
+      type: 'plan',
+      entries: (item.items ?? []).map((todo) => ({
+        content: todo.text,
+        status: todo.completed ? 'completed' : 'pending',
+      })),
+    };
+  }
 }
 
 /**
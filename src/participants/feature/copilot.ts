@@ -0,0 +1,239 @@
+/**
+ * GitHub Copilot CLI Participant
+ */
+
+import * as vscode from 'vscode';
+import { executeCommand, findExecutable, LineParser, ParseResult, SpawnCliRunner } from '../../cli/spawnCliRunner';
+import { CopilotOutputParser, findCopilotSessionId } from '../../cli/copilotOutput';
+import {
+  AgentInstructions,
+  CliCommand,
+  CliOptions,
+  CliResult,
+  HealthGuidance,
+  InstallInfo,
+  PermissionProfile,
+  StreamCallback,
+} from '../../cli/types';
+import { ParticipantConfig } from '../types';
+import { applyLaunchConfig, getPermissionProfileConfig } from './utils';
+
+/**
+ * 세션 기록 파일 수정 시각 비교 허용 오차 (파일 시스템 시각 정밀도 보정, 밀리초)
+ */
+const SESSION_MTIME_TOLERANCE_MS = 1000;
+
+/**
+ * 권한 프로필별 Copilot CLI 도구 권한 인자
+ * -p 모드에서는 승인이 필요한 도구가 거부되므로 허용할 도구를 명시
+ */
+const TOOL_PERMISSIONS: Partial<Record<PermissionProfile, string[]>> = {
+  'read-only': ['--deny-tool', 'write', '--deny-tool', 'shell'],
+  'workspace-write': ['--allow-tool', 'write', '--deny-tool', 'shell'],
+  'full-auto': ['--allow-all-tools'],
+};
+
+export class CopilotCliRunner extends SpawnCliRunner {
+  readonly name = 'copilotcli';
+
+  /** `copilot -p`는 텍스트를 출력하므로 빈 줄과 들여쓰기 유지 */
+  protected readonly textOutput = true;
+
+  /**
+   * CLI 실행 (스트리밍)
+   * `copilot -p`는 세션 ID를 출력하지 않으므로 새 세션이면 실행 후 세션 기록에서 검색
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const startedAt = Date.now();
+    const result = await super.run(options, onContent);
+    const sessionId = options.resumeSessionId
+      ?? await findCopilotSessionId(startedAt - SESSION_MTIME_TOLERANCE_MS);
+
+    if (result.usage && !result.usage.model) {
+      result.usage.model = vscode.workspace.getConfiguration('CCA').get<string>('copilotcli.model') || undefined;
+    }
+    return { ...result, sessionId: result.sessionId ?? sessionId };
+  }
+
+  getArgumentOutputFormat(): string[] {
+    // 텍스트 출력만 지원하므로 색상 코드만 비활성화
+    return ['--no-color'];
+  }
+
+  getArgumentAllowedTools(): string[] {
+    const { profile, allowedTools, disallowedTools } = getPermissionProfileConfig(this.name);
+    if (profile !== 'custom') {
+      return [...(TOOL_PERMISSIONS[profile] ?? [])];
+    }
+
+    // custom 프로필은 도구 패턴(예: shell(git:*), write)을 그대로 전달
+    const args: string[] = [];
+    for (const tool of allowedTools) {
+      args.push('--allow-tool', tool);
+    }
+    for (const tool of disallowedTools) {
+      args.push('--deny-tool', tool);
+    }
+    return args;
+  }
+
+  getPermissionProfile(): PermissionProfile {
+    return getPermissionProfileConfig(this.name).profile;
+  }
+
+  getArgumentModel(): string[] {
+    const model = vscode.workspace.getConfiguration('CCA').get<string>('copilotcli.model');
+    return model ? ['--model', model] : [];
+  }
+
+  getArgumentResume(sessionId?: string): string[] {
+    return sessionId ? ['--resume', sessionId] : [];
+  }
+
+  getArgumentDirectories(): string[] {
+    // 다중 workspace 디렉토리 접근 허용
+    return (vscode.workspace.workspaceFolders ?? []).flatMap((folder) => ['--add-dir', folder.uri.fsPath]);
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    const { agentInstructions, prompt } = options;
+
+    // Copilot CLI는 인라인 시스템 프롬프트 옵션이 없으므로
+    // 에이전트 지침을 사용자 프롬프트 앞에 추가하여 전달
+    let finalPrompt = prompt ?? '';
+
+    if (agentInstructions) {
+      finalPrompt = [
+        '<AgentInstructions>',
+        agentInstructions.name,
+        agentInstructions.content,
+        '</AgentInstructions>',
+        '',
+        '<user_request>',
+        prompt ?? '',
+        '</user_request>',
+      ].join('\n');
+    }
+
+    // 셸을 거치지 않으므로 -p 인자로 그대로 전달
+    return ['-p', finalPrompt];
+  }
+
+  /**
+   * 대화형 CLI 실행 명령 (/handoff용, participant 이름과 실행 파일 이름이 다름)
+   */
+  getInteractiveCommand(args: string[]): CliCommand {
+    return applyLaunchConfig(this.name, { command: 'copilot', args });
+  }
+
+  async checkInstallation(): Promise<InstallInfo> {
+    try {
+      // 실행 시와 동일한 실행 파일 설정(executablePath, extraArgs, env) 적용
+      const { command, args, env } = applyLaunchConfig(this.name, { command: 'copilot', args: ['--version'] });
+
+      // which/where 명령으로 경로 확인 (실행 시 사용하는 경로와 동일)
+      const cliPath = await findExecutable(command);
+
+      // 버전 확인 (spawn으로 안전하게 실행)
+      const versionOutput = await executeCommand(cliPath, args, 10000, env);
+      const version = versionOutput.trim();
+
+      return {
+        status: 'installed',
+        version,
+        path: cliPath,
+      };
+    } catch (error: unknown) {
+      let errorMessage = 'GitHub Copilot CLI not found in PATH';
+
+      if (error && typeof error === 'object') {
+        const err = error as { code?: string; signal?: string; message?: string; killed?: boolean };
+
+        // 다양한 오류 유형 감지
+        if (err.code === 'ETIMEDOUT' || (err.killed && err.signal === 'SIGTERM')) {
+          errorMessage = 'Timed out while checking GitHub Copilot CLI installation';
+        } else if (err.code === 'ENOENT') {
+          errorMessage = 'GitHub Copilot CLI executable not found. Ensure it is installed and on your PATH.';
+        } else if (err.code === 'EACCES') {
+          errorMessage = 'Permission denied while executing GitHub Copilot CLI. Check executable permissions.';
+        } else if (err.message && err.message.trim() !== '') {
+          errorMessage = `Failed to verify GitHub Copilot CLI installation: ${err.message}`;
+        }
+      }
+
+      return {
+        status: 'not_installed',
+        error: errorMessage,
+      };
+    }
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return {
+      title: 'How to Install',
+      steps: [
+        'Install Node.js 22 or later',
+        'Run `npm install -g @github/copilot`',
+        'Run `copilot` once in a terminal and sign in with `/login` (requires an active Copilot subscription)',
+        'After installation, run `@copilotcli /doctor` again to verify',
+      ],
+      links: [
+        {
+          label: 'GitHub Copilot CLI Repository',
+          url: 'https://github.com/github/copilot-cli',
+        },
+      ],
+    };
+  }
+
+  protected buildCliOptions(options?: {
+    resumeSessionId?: string;
+    agentInstructions?: AgentInstructions;
+    prompt?: string;
+  }): CliCommand {
+    const { resumeSessionId } = options ?? {};
+    const args: string[] = [];
+
+    args.push(...this.getArgumentOutputFormat());
+    args.push(...this.getArgumentAllowedTools());
+    args.push(...this.getArgumentModel());
+    args.push(...this.getArgumentResume(resumeSessionId));
+    args.push(...this.getArgumentDirectories());
+    args.push(...this.getArgumentPrompt({ agentInstructions: options?.agentInstructions, prompt: options?.prompt }));
+
+    return applyLaunchConfig(this.name, {
+      command: 'copilot',
+      args,
+    });
+  }
+
+  /**
+   * 도구 호출 블록과 사용량 통계가 여러 라인에 걸치므로 실행 단위 파서 사용
+   */
+  protected createLineParser(): LineParser {
+    const parser = new CopilotOutputParser();
+    return (line) => parser.parseLine(line);
+  }
+
+  protected parseLineWithSession(line: string): ParseResult {
+    return new CopilotOutputParser().parseLine(line);
+  }
+}
+
+/**
+ * Copilot CLI Runner 싱글톤 인스턴스
+ */
+const copilotCli = new CopilotCliRunner();
+
+/**
+ * Copilot CLI Participant 설정 생성
+ * @returns Participant 설정
+ */
+export function createCopilotParticipant(): ParticipantConfig {
+  return {
+    id: 'copilot-cli-agents.copilotcli',
+    name: 'Copilot CLI',
+    description: 'GitHub Copilot CLI Assistant',
+    cliRunner: copilotCli,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Custom CLI Participant (@cli)
+ * CCA.cli.agents 설정 또는 .vscode/cca-agents.json에 선언한 stream-json 에이전트를
+ * /use <name>으로 선택하여 실행합니다.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeclarativeCliRunner } from '../../cli/declarativeCliRunner';
+import {
+  AgentInstructions,
+  CliOptions,
+  CliResult,
+  CliRunner,
+  CustomAgentDefinition,
+  HealthGuidance,
+  InstallInfo,
+} from '../../cli/types';
+import { ParticipantConfig } from '../types';
+import { ChatSessionManager } from '../session';
+import { substituteVariables } from './utils';
+
+/**
+ * 워크스페이스별 커스텀 에이전트 정의 파일 (첫 번째 워크스페이스 기준)
+ */
+export const CUSTOM_AGENTS_FILE = '.vscode/cca-agents.json';
+
+/**
+ * /use에서 사용할 수 있는 에이전트 이름 형식
+ */
+const AGENT_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * 커스텀 에이전트 정의 로드 결과
+ */
+export interface CustomAgentCatalog {
+  /** 유효한 에이전트 정의 (같은 이름은 정의 파일이 설정보다 우선) */
+  agents: CustomAgentDefinition[];
+  /** 잘못된 정의 및 파일 읽기 오류 */
+  errors: string[];
+}
+
+/**
+ * 에이전트 정의 검증
+ * @returns 유효하면 정의, 아니면 오류 메시지
+ */
+function validateDefinition(value: unknown, source: string): CustomAgentDefinition | string {
+  const definition = value as Partial<CustomAgentDefinition> | null;
+  if (!definition || typeof definition !== 'object') {
+    return `${source}: agent definition must be an object`;
+  }
+  if (typeof definition.name !== 'string' || !AGENT_NAME_PATTERN.test(definition.name)) {
+    return `${source}: \`name\` must contain only letters, digits, \`.\`, \`_\` or \`-\``;
+  }
+  if (typeof definition.command !== 'string' || !definition.command.trim()) {
+    return `${source}: agent "${definition.name}" has no \`command\``;
+  }
+  if (!definition.output || typeof definition.output !== 'object') {
+    return `${source}: agent "${definition.name}" has no \`output\` mapping`;
+  }
+  return definition as CustomAgentDefinition;
+}
+
+/**
+ * 설정 변수 치환 (${workspaceFolder}, ${env:VAR})
+ * 인자 템플릿 변수(${prompt} 등)는 실행 시 치환되므로 그대로 유지
+ */
+function resolveDefinition(definition: CustomAgentDefinition): CustomAgentDefinition {
+  const resolveArgs = (args?: string[]) => args?.map(substituteVariables);
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(definition.env ?? {})) {
+    env[key] = substituteVariables(String(value));
+  }
+
+  return {
+    ...definition,
+    command: substituteVariables(definition.command),
+    args: resolveArgs(definition.args),
+    promptArgs: resolveArgs(definition.promptArgs),
+    modelArgs: resolveArgs(definition.modelArgs),
+    resumeArgs: resolveArgs(definition.resumeArgs),
+    directoryArgs: resolveArgs(definition.directoryArgs),
+    versionArgs: resolveArgs(definition.versionArgs),
+    env,
+  };
+}
+
+/**
+ * 커스텀 에이전트 레지스트리
+ */
+export class CustomAgentRegistry {
+  /** 에이전트 이름별 Runner (정의가 바뀌면 재생성) */
+  private static runners = new Map<string, { signature: string; runner: DeclarativeCliRunner }>();
+
+  /**
+   * 설정과 정의 파일에서 에이전트 정의 로드
+   * @returns 에이전트 정의 및 오류 목록
+   */
+  static async load(): Promise<CustomAgentCatalog> {
+    const errors: string[] = [];
+    const definitions = new Map<string, CustomAgentDefinition>();
+
+    const add = (values: unknown[], source: string) => {
+      for (const value of values) {
+        const result = validateDefinition(value, source);
+        if (typeof result === 'string') {
+          errors.push(result);
+        } else {
+          definitions.set(result.name, resolveDefinition(result));
+        }
+      }
+    };
+
+    add(vscode.workspace.getConfiguration('CCA').get<unknown[]>('cli.agents', []), 'CCA.cli.agents');
+
+    // 워크스페이스 파일은 실행할 명령을 정의하므로 신뢰할 수 있는 워크스페이스에서만 로드
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (root && vscode.workspace.isTrusted) {
+      const filePath = path.join(root, CUSTOM_AGENTS_FILE);
+      try {
+        const content = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as { agents?: unknown };
+        if (Array.isArray(content.agents)) {
+          add(content.agents, CUSTOM_AGENTS_FILE);
+        } else {
+          errors.push(`${CUSTOM_AGENTS_FILE}: expected an \`agents\` array`);
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          errors.push(`${CUSTOM_AGENTS_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    return { agents: [...definitions.values()], errors };
+  }
+
+  /**
+   * 에이전트 이름으로 Runner 조회
+   * @param name - 에이전트 이름
+   * @returns Runner (정의가 없으면 undefined)
+   */
+  static async getRunner(name: string): Promise<DeclarativeCliRunner | undefined> {
+    const { agents } = await this.load();
+    const definition = agents.find((agent) => agent.name === name);
+    if (!definition) {
+      return undefined;
+    }
+
+    const signature = JSON.stringify(definition);
+    const cached = this.runners.get(name);
+    if (cached?.signature === signature) {
+      return cached.runner;
+    }
+
+    const runner = new DeclarativeCliRunner(definition, {
+      getDirectories: () => (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+    });
+    this.runners.set(name, { signature, runner });
+    return runner;
+  }
+
+  /**
+   * 대화에서 사용할 Runner 선택
+   * /use로 선택한 에이전트, CCA.cli.defaultAgent, 정의가 하나뿐이면 그 에이전트 순으로 사용
+   * @param history - Chat history
+   * @returns Runner (선택할 에이전트가 없으면 undefined)
+   */
+  static async select(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): Promise<DeclarativeCliRunner | undefined> {
+    const selected = ChatSessionManager.findSelectedAgent(history)
+      || vscode.workspace.getConfiguration('CCA').get<string>('cli.defaultAgent');
+    if (selected) {
+      return this.getRunner(selected);
+    }
+
+    const { agents } = await this.load();
+    return agents.length === 1 ? this.getRunner(agents[0].name) : undefined;
+  }
+}
+
+/**
+ * 에이전트 선택 안내 메시지
+ */
+async function describeSelection(): Promise<string> {
+  const { agents } = await CustomAgentRegistry.load();
+  if (agents.length === 0) {
+    return `No custom agents are defined. Add them to \`CCA.cli.agents\` or \`${CUSTOM_AGENTS_FILE}\`.`;
+  }
+  return `No custom agent selected. Use \`/use <name>\` (available: ${agents.map((agent) => `\`${agent.name}\``).join(', ')}).`;
+}
+
+/**
+ * 에이전트를 선택하기 전의 @cli Runner
+ * 실행 대신 /use 안내를 반환
+ */
+class UnselectedCliRunner implements CliRunner {
+  readonly name = 'cli';
+
+  async run(_options: CliOptions): Promise<CliResult> {
+    return { success: false, content: '', error: await describeSelection() };
+  }
+
+  getArgumentOutputFormat(): string[] {
+    return [];
+  }
+
+  getArgumentAllowedTools(): string[] {
+    return [];
+  }
+
+  getArgumentModel(): string[] {
+    return [];
+  }
+
+  getArgumentResume(): string[] {
+    return [];
+  }
+
+  getArgumentDirectories(): string[] {
+    return [];
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    return options.prompt ? [options.prompt] : [];
+  }
+
+  async checkInstallation(): Promise<InstallInfo> {
+    return { status: 'unknown', error: await describeSelection() };
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return {
+      title: 'How to Add a Custom Agent',
+      steps: [
+        `Define the agent in \`CCA.cli.agents\` or \`${CUSTOM_AGENTS_FILE}\` (command, argument templates and output mappings)`,
+        'Select it with `@cli /use <name>`',
+        'Run `@cli /doctor` again to verify',
+      ],
+    };
+  }
+}
+
+/**
+ * Custom CLI Participant 설정 생성
+ * @returns Participant 설정
+ */
+export function createCustomParticipant(): ParticipantConfig {
+  return {
+    id: 'copilot-cli-agents.cli',
+    name: 'CLI',
+    description: 'Custom stream-json CLI Agent',
+    cliRunner: new UnselectedCliRunner(),
+    selectCliRunner: (history) => CustomAgentRegistry.select(history),
+  };
+}
@@ -3,12 +3,91 @@
  */
 
 import * as vscode from 'vscode';
-import { executeCommand, ParseResult, SpawnCliRunner } from '../../cli/spawnCliRunner';
-import { GeminiStreamMessage, HealthGuidance, InstallInfo, StreamContent, AgentInstructions } from '../../cli/types';
+import { executeCommand, findExecutable, LineParser, ParseResult, SpawnCliRunner } from '../../cli/spawnCliRunner';
+import { AcpCliRunner } from '../../cli/acpCliRunner';
+import {
+  FileChangeEvent,
+  GeminiStreamMessage,
+  HealthGuidance,
+  InstallInfo,
+  StreamEvent,
+  AgentInstructions,
+  CliCommand,
+  CliOptions,
+  CliResult,
+  PermissionProfile,
+  StreamCallback,
+} from '../../cli/types';
 import { ParticipantConfig } from '../types';
+import { applyLaunchConfig, getPermissionProfileConfig } from './utils';
+
+/**
+ * 권한 프로필별 Gemini --approval-mode 값
+ * default 모드의 비대화형 실행에서는 확인이 필요한 쓰기 도구가 제외됨
+ */
+const APPROVAL_MODES: Record<PermissionProfile, string> = {
+  'read-only': 'default',
+  'workspace-write': 'auto_edit',
+  'full-auto': 'yolo',
+  custom: 'default',
+};
+
+/**
+ * 파일을 수정하는 Gemini 도구 목록
+ */
+const FILE_WRITE_TOOLS = ['write_file', 'replace'];
+
+/**
+ * 계획(할 일 목록) 갱신 도구 이름
+ */
+const TODO_TOOL = 'write_todos';
+
+/**
+ * write_todos 도구 입력 항목
+ */
+interface GeminiTodo {
+  description: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+}
+
+/**
+ * 실행 단위 스트림 파싱 상태
+ */
+interface GeminiStreamState {
+  /** 결과를 기다리는 파일 수정 도구의 변경 목록 (tool_id별, 성공한 경우에만 출력) */
+  pendingFileChanges: Map<string, FileChangeEvent>;
+}
 
 export class GeminiCliRunner extends SpawnCliRunner {
-  readonly name = 'gemini';
+  readonly name: string = 'gemini';
+
+  /** 실행 파일 이름 (Gemini CLI 포크는 하위 클래스에서 변경) */
+  protected readonly command: string = 'gemini';
+
+  /** 오류 메시지에 표시할 CLI 이름 */
+  protected readonly displayName: string = 'Gemini CLI';
+
+  /** ACP(--experimental-acp) 백엔드 Runner */
+  private readonly acpRunner = new AcpCliRunner(
+    this,
+    () => applyLaunchConfig(this.name, {
+      command: this.command,
+      args: ['--experimental-acp', ...this.getArgumentAllowedTools(), ...this.getArgumentModel()],
+    }),
+    () => (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath)
+  );
+
+  /**
+   * CLI 실행 (스트리밍)
+   * CCA.<name>.backend 설정이 acp이면 ACP Runner로 실행
+   */
+  async run(options: CliOptions, onContent: StreamCallback): Promise<CliResult> {
+    const config = vscode.workspace.getConfiguration('CCA');
+    if (config.get<string>(`${this.name}.backend`, 'stream-json') === 'acp') {
+      return this.acpRunner.run(options, onContent);
+    }
+    return super.run(options, onContent);
+  }
 
   getArgumentOutputFormat(): string[] {
     return ['--output-format', 'stream-json'];
@@ -16,12 +95,25 @@ export class GeminiCliRunner extends SpawnCliRunner {
 
   getArgumentAllowedTools(): string[] {
     // Gemini CLI는 기본적으로 웹 검색이 활성화되어 있음
-    return [];
+    const { profile, allowedTools } = getPermissionProfileConfig(this.name);
+    const args = ['--approval-mode', APPROVAL_MODES[profile] ?? 'default'];
+
+    if (profile === 'custom') {
+      // 배열 옵션이 뒤따르는 프롬프트 인자를 삼키지 않도록 `=` 형식으로 하나씩 전달
+      for (const tool of allowedTools) {
+        args.push(`--allowed-tools=${tool}`);
+      }
+    }
+    return args;
+  }
+
+  getPermissionProfile(): PermissionProfile {
+    return getPermissionProfileConfig(this.name).profile;
   }
 
   getArgumentModel(): string[] {
     const config = vscode.workspace.getConfiguration('CCA');
-    const model = config.get<string>('gemini.model');
+    const model = config.get<string>(`${this.name}.model`);
     return model ? ['--model', model] : [];
   }
   
@@ -48,8 +140,8 @@ export class GeminiCliRunner extends SpawnCliRunner {
   getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
     const { agentInstructions, prompt } = options;
 
-    // Gemini CLI는 --system-prompt 옵션이 없으므로
-    // 에이전트 지침을 사용자 프롬프트 앞에 추가하여 전달
+    // Gemini CLI는 추가 시스템 프롬프트 옵션이 없고 GEMINI_SYSTEM_MD는 기본 시스템 프롬프트
+    // (도구 사용, 안전 규칙)를 통째로 대체하므로 native 방식에서도 사용자 프롬프트 앞에 추가하여 전달
     let finalPrompt = prompt ?? '';
 
     if (agentInstructions) {
@@ -68,18 +160,23 @@ export class GeminiCliRunner extends SpawnCliRunner {
     return [finalPrompt];
   }
 
+  /**
+   * 프롬프트와 에이전트 지침은 stdin으로 전달 (비대화형 모드에서 stdin을 프롬프트로 사용)
+   */
+  protected getStdinInput(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    return this.getArgumentPrompt(options)[0];
+  }
+
   async checkInstallation(): Promise<InstallInfo> {
     try {
-      // which/where 명령으로 경로 확인 (spawn으로 안전하게 실행)
-      const whichCmd = process.platform === 'win32' ? 'where' : 'which';
-      const pathOutput = await executeCommand(whichCmd, ['gemini'], 10000);
-      const cliPath = pathOutput
-        .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line.length > 0)[0];
+      // 실행 시와 동일한 실행 파일 설정(executablePath, extraArgs, env) 적용
+      const { command, args, env } = applyLaunchConfig(this.name, { command: this.command, args: ['--version'] });
+
+      // which/where 명령으로 경로 확인 (실행 시 사용하는 경로와 동일)
+      const cliPath = await findExecutable(command);
 
       // 버전 확인 (spawn으로 안전하게 실행)
-      const versionOutput = await executeCommand('gemini', ['--version'], 10000);
+      const versionOutput = await executeCommand(cliPath, args, 10000, env);
       const version = versionOutput.trim();
 
       return {
@@ -88,20 +185,20 @@ export class GeminiCliRunner extends SpawnCliRunner {
         path: cliPath,
       };
     } catch (error: unknown) {
-      let errorMessage = 'Gemini CLI not found in PATH';
+      let errorMessage = `${this.displayName} not found in PATH`;
 
       if (error && typeof error === 'object') {
         const err = error as { code?: string; signal?: string; message?: string; killed?: boolean };
 
         // 다양한 오류 유형 감지
         if (err.code === 'ETIMEDOUT' || (err.killed && err.signal === 'SIGTERM')) {
-          errorMessage = 'Timed out while checking Gemini CLI installation';
+          errorMessage = `Timed out while checking ${this.displayName} installation`;
         } else if (err.code === 'ENOENT') {
-          errorMessage = 'Gemini CLI executable not found. Ensure it is installed and on your PATH.';
+          errorMessage = `${this.displayName} executable not found. Ensure it is installed and on your PATH.`;
         } else if (err.code === 'EACCES') {
-          errorMessage = 'Permission denied while executing Gemini CLI. Check executable permissions.';
+          errorMessage = `Permission denied while executing ${this.displayName}. Check executable permissions.`;
         } else if (err.message && err.message.trim() !== '') {
-          errorMessage = `Failed to verify Gemini CLI installation: ${err.message}`;
+          errorMessage = `Failed to verify ${this.displayName} installation: ${err.message}`;
         }
       }
 
@@ -133,7 +230,7 @@ export class GeminiCliRunner extends SpawnCliRunner {
     resumeSessionId?: string;
     agentInstructions?: AgentInstructions;
     prompt?: string;
-  }): { command: string; args: string[] } {
+  }): CliCommand {
     const { resumeSessionId } = options ?? {};
     const args: string[] = [];
 
@@ -142,53 +239,125 @@ export class GeminiCliRunner extends SpawnCliRunner {
     args.push(...this.getArgumentModel());
     args.push(...this.getArgumentResume(resumeSessionId));
     args.push(...this.getArgumentDirectories());
-    args.push(...this.getArgumentPrompt({ agentInstructions: options?.agentInstructions, prompt: options?.prompt }));
+    // 프롬프트는 인자 대신 stdin으로 전달 (getStdinInput)
 
-    return {
-      command: 'gemini',
+    return applyLaunchConfig(this.name, {
+      command: this.command,
       args,
-    };
+    });
   }
 
-  protected parseLineWithSession(line: string): ParseResult {
+  /**
+   * 실행 단위 라인 파서 생성 (파일 변경 대기 상태 유지)
+   */
+  protected createLineParser(): LineParser {
+    const state: GeminiStreamState = { pendingFileChanges: new Map() };
+    return (line) => this.parseLineWithSession(line, state);
+  }
+
+  protected parseLineWithSession(
+    line: string,
+    state: GeminiStreamState = { pendingFileChanges: new Map() }
+  ): ParseResult {
     try {
       const message = JSON.parse(line) as GeminiStreamMessage;
-      let content: StreamContent | null = null;
-
-      // tool_use 타입 처리
-      if (message.type === 'tool_use') {
-        content = {
-          type: 'tool_use',
-          content: message.tool_name || 'tool',
-          toolName: message.tool_name,
-        };
-      }
+      const events: StreamEvent[] = [];
 
-      // tool_result 타입 처리
-      else if (message.type === 'tool_result') {
-        content = {
-          type: 'tool_result',
-          content: message.output || '',
-          toolName: message.tool_name,
-        };
-      }
+      switch (message.type) {
+        case 'init':
+          if (message.session_id) {
+            events.push({ type: 'session', sessionId: message.session_id, model: message.model });
+          }
+          break;
+
+        // assistant 메시지의 content만 추출
+        case 'message':
+          if (message.role === 'assistant' && message.content) {
+            events.push({ type: 'text', content: message.content });
+          }
+          break;
+
+        case 'tool_use':
+          events.push(...this.toToolUseEvents(message, state));
+          break;
+
+        // 파일 변경은 도구가 성공한 경우에만 출력
+        case 'tool_result': {
+          const status = message.status === 'error' ? 'error' : 'success';
+          events.push({
+            type: 'tool_end',
+            toolId: message.tool_id,
+            toolName: message.tool_name,
+            status,
+            output: message.output ?? message.error?.message ?? '',
+          });
+          const fileChange = message.tool_id ? state.pendingFileChanges.get(message.tool_id) : undefined;
+          if (fileChange) {
+            state.pendingFileChanges.delete(message.tool_id!);
+            if (status === 'success') {
+              events.push(fileChange);
+            }
+          }
+          break;
+        }
+
+        case 'error':
+          if (message.message) {
+            events.push({ type: 'error', message: message.message });
+          }
+          break;
 
-      // assistant 메시지의 content만 추출
-      else if (message.type === 'message' && message.role === 'assistant' && message.content) {
-        content = {
-          type: 'text',
-          content: message.content,
-        };
+        case 'result':
+          if (message.stats) {
+            events.push({
+              type: 'usage',
+              inputTokens: message.stats.input_tokens,
+              outputTokens: message.stats.output_tokens,
+              cachedInputTokens: message.stats.cached,
+              totalTokens: message.stats.total_tokens,
+              durationMs: message.stats.duration_ms,
+            });
+          }
+          break;
       }
 
       return {
-        content,
+        events,
         sessionId: message.session_id,
       };
     } catch {
       // JSON 파싱 실패 시 무시
-      return { content: null };
+      return { events: [] };
+    }
+  }
+
+  /**
+   * tool_use 메시지를 스트리밍 이벤트로 변환 (계획 도구 포함)
+   * 파일 수정 도구는 결과를 받을 때까지 변경 목록을 보류
+   */
+  private toToolUseEvents(message: GeminiStreamMessage, state: GeminiStreamState): StreamEvent[] {
+    const toolName = message.tool_name || 'tool';
+    const params = message.parameters ?? {};
+    const events: StreamEvent[] = [{ type: 'tool_start', toolId: message.tool_id, toolName, params }];
+
+    if (toolName === TODO_TOOL && Array.isArray(params.todos)) {
+      const todos = (params.todos as GeminiTodo[]).filter((todo) => todo.status !== 'cancelled');
+      events.push({
+        type: 'plan',
+        entries: todos.map((todo) => ({
+          content: todo.description,
+          status: todo.status as 'pending' | 'in_progress' | 'completed',
+        })),
+      });
+    }
+
+    if (FILE_WRITE_TOOLS.includes(toolName) && typeof params.file_path === 'string' && message.tool_id) {
+      state.pendingFileChanges.set(message.tool_id, {
+        type: 'file_change',
+        changes: [{ path: params.file_path, kind: toolName === 'replace' ? 'update' : undefined }],
+      });
     }
+    return events;
   }
 }
 
@@ -10,3 +10,7 @@ export * from './utils';
 export { createClaudeParticipant } from './claude';
 export { createCodexParticipant } from './codex';
 export { createGeminiParticipant } from './gemini';
+export { createCopilotParticipant } from './copilot';
+export { createQwenParticipant } from './qwen';
+export { createOpenCodeParticipant } from './opencode';
+export { createCustomParticipant, CustomAgentRegistry } from './custom';
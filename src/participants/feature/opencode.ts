@@ -0,0 +1,218 @@
+/**
+ * OpenCode Participant
+ */
+
+import * as vscode from 'vscode';
+import { executeCommand, findExecutable, LineParser, ParseResult, SpawnCliRunner } from '../../cli/spawnCliRunner';
+import { OpenCodeOutputParser } from '../../cli/opencodeOutput';
+import {
+  AgentInstructions,
+  CliCommand,
+  HealthGuidance,
+  InstallInfo,
+  PermissionProfile,
+} from '../../cli/types';
+import { ParticipantConfig } from '../types';
+import { applyLaunchConfig, getPermissionProfileConfig } from './utils';
+
+/**
+ * 권한 프로필별 OpenCode 권한 설정 (OPENCODE_PERMISSION 환경 변수로 전달)
+ * run 모드에서 확인이 필요한 도구는 실행되지 않으므로 허용할 도구를 명시
+ */
+const TOOL_PERMISSIONS: Partial<Record<PermissionProfile, Record<string, string>>> = {
+  'read-only': { edit: 'deny', bash: 'deny' },
+  'workspace-write': { edit: 'allow', bash: 'deny' },
+  'full-auto': { edit: 'allow', bash: 'allow', webfetch: 'allow' },
+};
+
+export class OpenCodeCliRunner extends SpawnCliRunner {
+  readonly name = 'opencode';
+
+  getArgumentOutputFormat(): string[] {
+    return ['run', '--format', 'json'];
+  }
+
+  getArgumentAllowedTools(): string[] {
+    // OpenCode는 권한 인자가 없으므로 getPermissionEnv로 전달
+    return [];
+  }
+
+  getPermissionProfile(): PermissionProfile {
+    return getPermissionProfileConfig(this.name).profile;
+  }
+
+  getArgumentModel(): string[] {
+    const model = vscode.workspace.getConfiguration('CCA').get<string>('opencode.model');
+    return model ? ['--model', model] : [];
+  }
+
+  getArgumentResume(sessionId?: string): string[] {
+    return sessionId ? ['--session', sessionId] : [];
+  }
+
+  getArgumentDirectories(): string[] {
+    // OpenCode는 작업 디렉토리 기준으로 실행되며 추가 디렉토리 옵션이 없음
+    return [];
+  }
+
+  getArgumentPrompt(options: { agentInstructions?: AgentInstructions; prompt?: string }): string[] {
+    const { agentInstructions, prompt } = options;
+
+    // OpenCode는 인라인 시스템 프롬프트 옵션이 없으므로
+    // 에이전트 지침을 사용자 프롬프트 앞에 추가하여 전달
+    let finalPrompt = prompt ?? '';
+
+    if (agentInstructions) {
+      finalPrompt = [
+        '<AgentInstructions>',
+        agentInstructions.name,
+        agentInstructions.content,
+        '</AgentInstructions>',
+        '',
+        '<user_request>',
+        prompt ?? '',
+        '</user_request>',
+      ].join('\n');
+    }
+
+    return [finalPrompt];
+  }
+
+  /**
+   * 프롬프트와 에이전트 지침은 stdin으로 전달 (opencode run은 stdin을 메시지로 사용)
+   */
+  protected getStdinInput(options: { agentInstructions?: AgentInstructions; prompt?: string }): string | undefined {
+    return this.getArgumentPrompt(options)[0];
+  }
+
+  /**
+   * 권한 프로필을 OpenCode 권한 설정 환경 변수로 변환
+   * custom 프로필은 allowedTools/disallowedTools의 도구 이름을 allow/deny로 전달
+   */
+  private getPermissionEnv(): Record<string, string> {
+    const { profile, allowedTools, disallowedTools } = getPermissionProfileConfig(this.name);
+    let permission = TOOL_PERMISSIONS[profile];
+
+    if (profile === 'custom') {
+      permission = {};
+      for (const tool of allowedTools) {
+        permission[tool] = 'allow';
+      }
+      for (const tool of disallowedTools) {
+        permission[tool] = 'deny';
+      }
+    }
+    return permission && Object.keys(permission).length > 0
+      ? { OPENCODE_PERMISSION: JSON.stringify(permission) }
+      : {};
+  }
+
+  async checkInstallation(): Promise<InstallInfo> {
+    try {
+      // 실행 시와 동일한 실행 파일 설정(executablePath, extraArgs, env) 적용
+      const { command, args, env } = applyLaunchConfig(this.name, { command: 'opencode', args: ['--version'] });
+
+      // which/where 명령으로 경로 확인 (실행 시 사용하는 경로와 동일)
+      const cliPath = await findExecutable(command);
+
+      // 버전 확인 (spawn으로 안전하게 실행)
+      const versionOutput = await executeCommand(cliPath, args, 10000, env);
+      const version = versionOutput.trim();
+
+      return {
+        status: 'installed',
+        version,
+        path: cliPath,
+      };
+    } catch (error: unknown) {
+      let errorMessage = 'OpenCode not found in PATH';
+
+      if (error && typeof error === 'object') {
+        const err = error as { code?: string; signal?: string; message?: string; killed?: boolean };
+
+        // 다양한 오류 유형 감지
+        if (err.code === 'ETIMEDOUT' || (err.killed && err.signal === 'SIGTERM')) {
+          errorMessage = 'Timed out while checking OpenCode installation';
+        } else if (err.code === 'ENOENT') {
+          errorMessage = 'OpenCode executable not found. Ensure it is installed and on your PATH.';
+        } else if (err.code === 'EACCES') {
+          errorMessage = 'Permission denied while executing OpenCode. Check executable permissions.';
+        } else if (err.message && err.message.trim() !== '') {
+          errorMessage = `Failed to verify OpenCode installation: ${err.message}`;
+        }
+      }
+
+      return {
+        status: 'not_installed',
+        error: errorMessage,
+      };
+    }
+  }
+
+  getInstallGuidance(): HealthGuidance {
+    return {
+      title: 'How to Install',
+      steps: [
+        'Run `npm install -g opencode-ai` (or `curl -fsSL https://opencode.ai/install | bash`)',
+        'Run `opencode auth login` to configure a model provider',
+        'After installation, run `@opencode /doctor` again to verify',
+      ],
+      links: [
+        {
+          label: 'OpenCode Documentation',
+          url: 'https://opencode.ai/docs/',
+        },
+      ],
+    };
+  }
+
+  protected buildCliOptions(options?: {
+    resumeSessionId?: string;
+    agentInstructions?: AgentInstructions;
+    prompt?: string;
+  }): CliCommand {
+    const { resumeSessionId } = options ?? {};
+    const args: string[] = [];
+
+    args.push(...this.getArgumentOutputFormat());
+    args.push(...this.getArgumentModel());
+    args.push(...this.getArgumentResume(resumeSessionId));
+    // 프롬프트는 인자 대신 stdin으로 전달 (getStdinInput)
+
+    return applyLaunchConfig(this.name, {
+      command: 'opencode',
+      args,
+      env: this.getPermissionEnv(),
+    });
+  }
+
+  /**
+   * 세션 ID가 모든 이벤트에 반복되므로 실행 단위 파서로 세션 이벤트를 한 번만 생성
+   */
+  protected createLineParser(): LineParser {
+    const parser = new OpenCodeOutputParser();
+    return (line) => parser.parseLine(line);
+  }
+
+  protected parseLineWithSession(line: string): ParseResult {
+    return new OpenCodeOutputParser().parseLine(line);
+  }
+}
+
+/**
+ * OpenCode Runner 싱글톤 인스턴스
+ */
+const opencodeCli = new OpenCodeCliRunner();
+
+/**
+ * OpenCode Participant 설정 생성
+ * @returns Participant 설정
+ */
+export function createOpenCodeParticipant(): ParticipantConfig {
+  return {
+    id: 'copilot-cli-agents.opencode',
+    name: 'OpenCode',
+    description: 'OpenCode AI Assistant',
+    cliRunner: opencodeCli,
+  };
+}
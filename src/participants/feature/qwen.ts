@@ -0,0 +1,53 @@
+/**
+ * Qwen Code Participant
+ * Qwen Code는 Gemini CLI 포크로 동일한 인자와 stream-json 출력 형식을 사용하므로
+ * GeminiCliRunner를 그대로 재사용합니다.
+ */
+
+import { HealthGuidance } from '../../cli/types';
+import { ParticipantConfig } from '../types';
+import { GeminiCliRunner } from './gemini';
+
+export class QwenCliRunner extends GeminiCliRunner {
+  readonly name: string = 'qwen';
+
+  protected readonly command: string = 'qwen';
+
+  protected readonly displayName: string = 'Qwen Code';
+
+  getInstallGuidance(): HealthGuidance {
+    return {
+      title: 'How to Install',
+      steps: [
+        'Install Node.js 20 or later',
+        'Run `npm install -g @qwen-code/qwen-code`',
+        'Run `qwen` once in a terminal to sign in or configure an API key',
+        'After installation, run `@qwen /doctor` again to verify',
+      ],
+      links: [
+        {
+          label: 'Qwen Code Repository',
+          url: 'https://github.com/QwenLM/qwen-code',
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Qwen Code Runner 싱글톤 인스턴스
+ */
+const qwenCli = new QwenCliRunner();
+
+/**
+ * Qwen Code Participant 설정 생성
+ * @returns Participant 설정
+ */
+export function createQwenParticipant(): ParticipantConfig {
+  return {
+    id: 'copilot-cli-agents.qwen',
+    name: 'Qwen',
+    description: 'Qwen Code AI Assistant',
+    cliRunner: qwenCli,
+  };
+}
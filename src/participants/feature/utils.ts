@@ -4,10 +4,30 @@
  */
 
 import * as vscode from 'vscode';
-import { CliRunner, StreamContent } from '../../cli/types';
+import * as path from 'path';
+import {
+  AgentInstructionsMode,
+  BudgetConfig,
+  CliCommand,
+  CliResult,
+  CliRunner,
+  CliUsage,
+  LaunchConfig,
+  PermissionProfile,
+  PermissionProfileConfig,
+  StreamEvent,
+  ToolEndEvent,
+  ToolStartEvent,
+} from '../../cli/types';
+import { escapeShellArg } from '../../cli/spawnCliRunner';
+import { classifyCliError } from '../../cli/utils';
 import { resolveFileReferences } from './promptProcessor';
-import { AgentInstructions } from '../types';
-import { ChatSessionManager } from '../session';
+import { AgentInstructions, ChatSessionMetadata, SessionOrigin } from '../types';
+import { ChatSessionManager, MarkerTextFilter, neutralizeMarkers } from '../session';
+import { ChatPermissionManager } from '../permission';
+import { UsageLedger } from '../usage';
+import { ChatBudgetManager } from '../budget';
+import { FailureRemediation } from '../remediation';
 
 /**
  * CLI 실행 옵션
@@ -31,54 +51,494 @@ export interface RunCliOptions {
   agentInstructions?: AgentInstructions;
   /** 커맨드 이름 (선택적, 빈 프롬프트 메시지용) */
   commandName?: string;
+  /** 세션에 이미 전달된 지침이어도 에이전트 지침을 다시 전달할지 여부 (/reload-agent) */
+  forceAgentInstructions?: boolean;
+  /** 현재 세션 대신 새 세션을 시작(/new)하거나 현재 세션에서 분기(/fork) */
+  sessionAction?: Extract<SessionOrigin, 'new' | 'fork'>;
 }
 
 /**
- * 스트리밍 콘텐츠를 VS Code Chat으로 출력
- * @param stream - VS Code Chat Response Stream
- * @param content - 스트리밍 콘텐츠
+ * CLI별 권한 프로필 설정 조회
+ * @param cliName - CLI 이름 (CCA.<cliName>.permissionProfile 설정 키)
+ * @returns 권한 프로필 및 custom 프로필용 도구 목록
  */
-function handleStreamContent(
-  stream: vscode.ChatResponseStream,
-  content: StreamContent
-): void {
-  switch (content.type) {
-    case 'tool_use':
-      stream.progress(`🔧 Using tool: ${content.toolName || 'unknown'}`);
-      break;
-    case 'tool_result':
-      stream.progress(`📥 Tool result from ${content.toolName || 'unknown'}:\n\`\`\`\n${content.content}\n\`\`\``);
-      break;
-    case 'reasoning':
-      stream.progress(`💭 ${content.content}`);
-      break;
-    default:
-      stream.markdown(content.content);
+export function getPermissionProfileConfig(cliName: string): PermissionProfileConfig {
+  const config = vscode.workspace.getConfiguration('CCA');
+  return {
+    profile: config.get<PermissionProfile>(`${cliName}.permissionProfile`, 'read-only'),
+    allowedTools: config.get<string[]>(`${cliName}.allowedTools`, []),
+    disallowedTools: config.get<string[]>(`${cliName}.disallowedTools`, []),
+  };
+}
+
+/**
+ * CLI별 예산 설정 조회
+ * @param cliName - CLI 이름 (CCA.<cliName>.budget 설정 키)
+ * @returns 예산 설정 (한도가 0 이하이면 미설정으로 간주)
+ */
+export function getBudgetConfig(cliName: string): BudgetConfig {
+  const budget = vscode.workspace.getConfiguration('CCA').get<BudgetConfig>(`${cliName}.budget`, {});
+  const positive = (value?: number) => (typeof value === 'number' && value > 0 ? value : undefined);
+  return {
+    maxCostUsdPerTurn: positive(budget.maxCostUsdPerTurn),
+    maxCostUsdPerSession: positive(budget.maxCostUsdPerSession),
+    maxTokensPerTurn: positive(budget.maxTokensPerTurn),
+    maxTokensPerSession: positive(budget.maxTokensPerSession),
+    maxTurns: positive(budget.maxTurns),
+  };
+}
+
+/**
+ * 설정 값의 변수 치환
+ * ${workspaceFolder}는 첫 번째 워크스페이스 경로, ${env:VAR}는 환경 변수 값으로 치환 (없으면 빈 문자열)
+ * @param value - 설정 값
+ * @returns 치환된 값
+ */
+export function substituteVariables(value: string): string {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+  return value
+    .replace(/\$\{workspaceFolder\}/g, workspaceFolder)
+    .replace(/\$\{env:([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * CLI별 실행 파일 설정 조회 (변수 치환 적용)
+ * @param cliName - CLI 이름 (CCA.<cliName>.executablePath / extraArgs / env 설정 키)
+ * @returns 실행 파일 설정
+ */
+export function getLaunchConfig(cliName: string): LaunchConfig {
+  const config = vscode.workspace.getConfiguration('CCA');
+  const executablePath = substituteVariables(config.get<string>(`${cliName}.executablePath`, '').trim());
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.get<Record<string, string>>(`${cliName}.env`, {}))) {
+    env[key] = substituteVariables(String(value));
+  }
+
+  return {
+    executablePath: executablePath || undefined,
+    extraArgs: config.get<string[]>(`${cliName}.extraArgs`, []).map(substituteVariables),
+    env,
+  };
+}
+
+/**
+ * CLI 실행 명령에 실행 파일 설정 적용
+ * 실행 파일을 교체하고 추가 인자를 생성된 인자 앞에 배치 (npx 패키지 지정 등), 환경 변수는 병합
+ * @param cliName - CLI 이름
+ * @param cliCommand - 기본 CLI 실행 명령
+ * @returns 설정이 적용된 실행 명령
+ */
+export function applyLaunchConfig(cliName: string, cliCommand: CliCommand): CliCommand {
+  const { executablePath, extraArgs, env } = getLaunchConfig(cliName);
+  return {
+    command: executablePath ?? cliCommand.command,
+    args: [...extraArgs, ...cliCommand.args],
+    env: { ...cliCommand.env, ...env },
+  };
+}
+
+/**
+ * 대화형 CLI 실행 명령 구성 (/handoff, 로그인 터미널)
+ * @param cliRunner - CLI Runner
+ * @param args - 대화형 CLI 인자
+ * @returns 실행 파일 설정이 적용된 실행 명령
+ */
+export function getInteractiveCliCommand(cliRunner: CliRunner, args: string[]): CliCommand {
+  return cliRunner.getInteractiveCommand?.(args)
+    ?? applyLaunchConfig(cliRunner.name, { command: cliRunner.name, args });
+}
+
+/**
+ * 에디터 옆 터미널에서 CLI 실행 (Windows에서는 cmd 사용)
+ * @param name - 터미널 이름
+ * @param cliCommand - 실행 명령
+ * @param iconPath - 터미널 아이콘
+ */
+export function openCliTerminal(name: string, cliCommand: CliCommand, iconPath?: vscode.Uri): void {
+  // 공백이 포함된 경로 등은 터미널 셸에서 하나의 인자로 전달되도록 쿼트
+  const commandLine = [cliCommand.command, ...cliCommand.args]
+    .map((part) => (/\s/.test(part) ? escapeShellArg(part) : part))
+    .join(' ');
+
+  const terminal = vscode.window.createTerminal({
+    name,
+    location: {
+      viewColumn: vscode.ViewColumn.Beside,
+    },
+    iconPath,
+    env: cliCommand.env,
+    ...(process.platform === 'win32' && {
+      shellPath: 'cmd.exe',
+    }),
+  });
+  terminal.show();
+  terminal.sendText(commandLine);
+}
+
+/**
+ * 에이전트 지침 전달 방식 조회 (CCA.agentInstructionsMode)
+ * @returns native면 CLI별 시스템 프롬프트 주입, prefix면 프롬프트 앞에 추가
+ */
+export function getAgentInstructionsMode(): AgentInstructionsMode {
+  return vscode.workspace.getConfiguration('CCA').get<AgentInstructionsMode>('agentInstructionsMode', 'native');
+}
+
+/**
+ * 에이전트 지침을 사용자 프롬프트 앞에 추가 (prefix 방식)
+ * @param agentInstructions - 에이전트 지침
+ * @param prompt - 사용자 프롬프트
+ * @returns 구분자로 지침과 요청을 나눈 프롬프트
+ */
+export function prefixAgentInstructions(agentInstructions: AgentInstructions, prompt: string): string {
+  return [
+    '<AgentInstructions>',
+    agentInstructions.name,
+    agentInstructions.content,
+    '</AgentInstructions>',
+    '',
+    '<user_request>',
+    prompt,
+    '</user_request>',
+  ].join('\n');
+}
+
+/**
+ * 취소 시 SIGTERM 이후 SIGKILL까지 유예 시간 조회 (CCA.cancelGracePeriodSeconds)
+ * @returns 유예 시간 (밀리초)
+ */
+export function getKillGraceMs(): number {
+  return vscode.workspace.getConfiguration('CCA').get<number>('cancelGracePeriodSeconds', 3) * 1000;
+}
+
+/**
+ * 도구 파라미터 요약 최대 길이
+ */
+const MAX_PARAM_SUMMARY_LENGTH = 80;
+
+/**
+ * 도구 종료 상태별 아이콘
+ */
+const TOOL_STATUS_ICONS: Record<ToolEndEvent['status'], string> = {
+  success: '📥',
+  error: '❌',
+  declined: '🚫',
+};
+
+/**
+ * 계획 항목 상태별 아이콘
+ */
+const PLAN_STATUS_ICONS = {
+  pending: '☐',
+  in_progress: '▶',
+  completed: '☑',
+} as const;
+
+/**
+ * 도구 파라미터 한 줄 요약 (명령어, 파일 경로 등 대표 값)
+ */
+function summarizeToolParams(params: ToolStartEvent['params']): string {
+  const value = params && ['command', 'file_path', 'path', 'query', 'pattern', 'url']
+    .map((key) => params[key])
+    .find((candidate): candidate is string => typeof candidate === 'string' && candidate.length > 0);
+  if (!value) {
+    return '';
+  }
+  const singleLine = value.replace(/\s+/g, ' ');
+  return singleLine.length > MAX_PARAM_SUMMARY_LENGTH
+    ? ` \`${singleLine.slice(0, MAX_PARAM_SUMMARY_LENGTH)}…\``
+    : ` \`${singleLine}\``;
+}
+
+/**
+ * 도구 종료 정보 요약 (상태, 종료 코드, 실행 시간)
+ */
+function summarizeToolEnd(event: ToolEndEvent): string {
+  const details: string[] = [];
+  if (event.status !== 'success') {
+    details.push(event.status);
+  }
+  if (event.exitCode !== undefined && event.exitCode !== null) {
+    details.push(`exit code ${event.exitCode}`);
+  }
+  if (event.durationMs !== undefined) {
+    details.push(`${(event.durationMs / 1000).toFixed(1)}s`);
+  }
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+/**
+ * unified diff의 추가/삭제 라인 수 요약 (예: +12 -3)
+ */
+function summarizeDiff(diff?: string): string {
+  if (!diff) {
+    return '';
+  }
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      additions++;
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      deletions++;
+    }
   }
+  return additions > 0 || deletions > 0 ? ` \`+${additions} -${deletions}\`` : '';
+}
+
+/**
+ * 파일 경로를 워크스페이스 기준 URI로 변환
+ */
+function toFileUri(filePath: string): vscode.Uri {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  return vscode.Uri.file(path.isAbsolute(filePath) || !root ? filePath : path.join(root, filePath));
+}
+
+/**
+ * 토큰 수를 짧은 형식으로 변환 (예: 1234 → 1.2k)
+ */
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+/**
+ * 사용량 푸터 항목 생성 (토큰, 비용, 실행 시간, 모델)
+ * @param usage - 정규화된 사용량
+ * @returns 푸터 항목 목록
+ */
+function formatUsageParts(usage: CliUsage): string[] {
+  const parts: string[] = [];
+
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    const cached = usage.cachedInputTokens ? ` (${formatTokens(usage.cachedInputTokens)} cached)` : '';
+    parts.push(`🪙 ${formatTokens(usage.inputTokens ?? 0)} in${cached} / ${formatTokens(usage.outputTokens ?? 0)} out`);
+  }
+  if (usage.costUsd !== undefined) {
+    parts.push(`$${usage.costUsd.toFixed(4)}`);
+  }
+  parts.push(`⏱️ ${(usage.durationMs / 1000).toFixed(1)}s`);
+  if (usage.model) {
+    parts.push(usage.model);
+  }
+
+  return parts;
+}
+
+/**
+ * 스트리밍 이벤트 렌더러
+ * 연속된 추론 조각은 모아 두었다가 추론이 끝나면 접을 수 있는 블록으로 출력
+ * CLI가 출력한 텍스트의 마커 형태 문자열은 무력화하여 세션 마커로 읽히지 않도록 함
+ */
+class StreamEventRenderer {
+  /** 출력 대기 중인 추론 텍스트 */
+  private reasoning = '';
+
+  /** 본문 텍스트 마커 필터 */
+  private readonly textFilter = new MarkerTextFilter();
+
+  constructor(private readonly stream: vscode.ChatResponseStream) {}
+
+  /**
+   * 스트리밍 이벤트를 VS Code Chat으로 출력
+   * @param event - 스트리밍 이벤트
+   */
+  render(event: StreamEvent): void {
+    if (event.type === 'text') {
+      // 추론이 끝난 경우에만 flush (보류 중인 마커 시작 부분은 다음 텍스트 조각과 이어서 검사)
+      if (this.reasoning) {
+        this.flush();
+      }
+      const text = this.textFilter.write(event.content);
+      if (text) {
+        this.stream.markdown(text);
+      }
+      return;
+    }
+
+    if (event.type === 'reasoning') {
+      if (!this.reasoning) {
+        this.stream.progress('💭 Thinking...');
+      }
+      this.reasoning += event.content;
+      return;
+    }
+
+    this.flush();
+
+    const { stream } = this;
+    switch (event.type) {
+      case 'tool_start':
+        stream.progress(`🔧 Using tool: ${event.toolName}${summarizeToolParams(event.params)}`);
+        break;
+      case 'tool_end': {
+        const header = `${TOOL_STATUS_ICONS[event.status]} Tool result from ${event.toolName || 'unknown'}${summarizeToolEnd(event)}`;
+        stream.progress(event.output ? `${header}:\n\`\`\`\n${event.output}\n\`\`\`` : header);
+        break;
+      }
+      case 'file_change':
+        for (const change of event.changes) {
+          const label = change.kind === 'add' ? 'Created' : change.kind === 'delete' ? 'Deleted' : 'Edited';
+          stream.markdown(`\n\n📝 ${label} `);
+          stream.anchor(toFileUri(change.path), change.path);
+          stream.markdown(`${summarizeDiff(change.diff)}\n\n`);
+        }
+        break;
+      case 'plan': {
+        const checklist = event.entries
+          .map((entry) => `${PLAN_STATUS_ICONS[entry.status]} ${entry.content}`)
+          .join('\n');
+        if (checklist) {
+          stream.progress(`📋 Plan:\n${checklist}`);
+        }
+        break;
+      }
+      case 'error':
+        stream.markdown(`\n\n> ⚠️ ${neutralizeMarkers(event.message)}\n\n`);
+        break;
+      // 세션과 사용량은 메타데이터이므로 본문에 출력하지 않음 (응답 메타데이터 및 푸터로 처리)
+      case 'session':
+      case 'usage':
+        break;
+    }
+  }
+
+  /**
+   * 보류 중인 본문 텍스트와 모아 둔 추론 출력
+   */
+  flush(): void {
+    const text = this.textFilter.end();
+    if (text) {
+      this.stream.markdown(text);
+    }
+    this.flushReasoning();
+  }
+
+  /**
+   * 모아 둔 추론을 접을 수 있는 블록으로 출력
+   */
+  private flushReasoning(): void {
+    const reasoning = neutralizeMarkers(this.reasoning.trim());
+    this.reasoning = '';
+    if (!reasoning) {
+      return;
+    }
+
+    const markdown = new vscode.MarkdownString(
+      `\n\n<details>\n<summary>💭 Thinking</summary>\n\n${reasoning}\n\n</details>\n\n`
+    );
+    markdown.supportHtml = true;
+    this.stream.markdown(markdown);
+  }
+}
+
+/**
+ * 세션 재개 실패 여부 (취소, 예산 초과는 제외)
+ */
+function isSessionNotFound(cliName: string, result: CliResult, streamErrors: string[]): boolean {
+  if (result.success || result.cancelled || result.budgetExceeded) {
+    return false;
+  }
+  return classifyCliError(cliName, [result.error ?? '', ...streamErrors].join('\n')) === 'session_not_found';
+}
+
+/**
+ * 대화 기록 요약으로 새 세션을 시작하는 이유
+ */
+const TRANSCRIPT_NOTES: Record<Extract<SessionOrigin, 'fork' | 'rebuilt'>, string> = {
+  rebuilt: 'The previous session could not be resumed. This is the conversation so far; continue from it.',
+  fork: 'This session was forked from an earlier one. This is the conversation so far; continue from it.',
+};
+
+/**
+ * 새 세션에 이전 대화 기록 요약을 함께 전달하는 프롬프트 생성
+ * @param history - Chat history
+ * @param prompt - 현재 사용자 요청
+ * @param origin - 새 세션을 시작하는 이유 (복구 또는 포크)
+ * @returns 대화 기록이 없으면 원래 프롬프트
+ */
+function buildTranscriptPrompt(
+  history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>,
+  prompt: string,
+  origin: keyof typeof TRANSCRIPT_NOTES
+): string {
+  const transcript = ChatSessionManager.buildTranscript(history);
+  if (!transcript) {
+    return prompt;
+  }
+  return [
+    '<previous_conversation>',
+    TRANSCRIPT_NOTES[origin],
+    '',
+    transcript,
+    '</previous_conversation>',
+    '',
+    '<user_request>',
+    prompt,
+    '</user_request>',
+  ].join('\n');
 }
 
 /**
  * CLI 실행 공통 로직
  * @param options - CLI 실행 옵션
- * @returns 성공 여부
+ * @returns 채팅 결과 (다음 대화에서 읽을 세션 메타데이터 포함)
  */
-export async function runCliWithStreaming(options: RunCliOptions): Promise<boolean> {
-  const { cliRunner, name, prompt, references, history, stream, token, agentInstructions, commandName } = options;
+export async function runCliWithStreaming(options: RunCliOptions): Promise<vscode.ChatResult> {
+  const {
+    cliRunner,
+    name,
+    prompt,
+    references,
+    history,
+    stream,
+    token,
+    agentInstructions,
+    commandName,
+    forceAgentInstructions,
+    sessionAction,
+  } = options;
 
   // 프롬프트가 비어있는 경우
   if (!prompt.trim()) {
     const suffix = commandName ? ` with \`/${commandName}\`` : '';
     stream.markdown(`Please enter a question for **${name}**${suffix}.`);
-    return false;
+    return {};
   }
 
-  // 기존 세션 ID 검색
-  const existingSessionId = ChatSessionManager.findSessionId(history);
+  // 기존 세션 ID 검색 (/new와 /fork는 기존 세션을 이어가지 않음)
+  const currentSessionId = ChatSessionManager.findSessionId(history);
+  const existingSessionId = sessionAction ? undefined : currentSessionId;
+  const forkSessionId = sessionAction === 'fork' ? currentSessionId : undefined;
+
+  // Agent 지침 전달 여부 결정 (새 세션이 아니고 동일 Agent, 동일 내용이면 중복 전달 안함)
+  // 시스템 프롬프트로 주입하는 Runner는 세션에 지침이 남지 않으므로 매 실행마다 전달
+  const shouldPassInstructions = !!agentInstructions &&
+    (!!forceAgentInstructions ||
+      !existingSessionId ||
+      ChatSessionManager.shouldPassAgentInstructions(history, agentInstructions));
+  const effectiveAgentInstructions = shouldPassInstructions || cliRunner.requiresAgentInstructionsEachRun?.()
+    ? agentInstructions
+    : undefined;
+
+  // 세션 예산 확인 (이미 모두 사용했으면 실행하지 않음)
+  const turnBudget = ChatBudgetManager.getTurnBudget(cliRunner.name, existingSessionId);
+  if (turnBudget.exhausted) {
+    ChatBudgetManager.renderExceeded(stream, cliRunner.name, existingSessionId, turnBudget.exhausted);
+    return {};
+  }
 
-  // Agent 지침 전달 여부 결정 (동일 Agent면 중복 전달 안함)
-  const currentAgentName = agentInstructions?.name;
-  const shouldPassInstructions = ChatSessionManager.shouldPassAgentInstructions(history, currentAgentName);
-  const effectiveAgentInstructions = shouldPassInstructions ? agentInstructions : undefined;
+  // 진행 중인 세션에 바뀐 지침을 전달하면 안내 (새 세션은 항상 지침으로 시작하므로 제외)
+  if (shouldPassInstructions && effectiveAgentInstructions && existingSessionId) {
+    const reason = forceAgentInstructions ? 'reloaded' : 'updated';
+    stream.markdown(
+      `📝 **Agent instructions ${reason}:** sent the current \`${effectiveAgentInstructions.name}\` instructions to this session.\n\n`
+    );
+  }
 
   // AbortController 생성 (취소 토큰 연동)
   const abortController = new AbortController();
@@ -88,34 +548,141 @@ export async function runCliWithStreaming(options: RunCliOptions): Promise<boole
   const resolvedPrompt = resolveFileReferences(prompt, references);
 
   // CLI 실행 (스트리밍)
-  const result = await cliRunner.run(
-    {
-      prompt: resolvedPrompt,
-      agentInstructions: effectiveAgentInstructions,
-      abortSignal: abortController.signal,
-      resumeSessionId: existingSessionId,
-      cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-    },
-    (content) => handleStreamContent(stream, content)
-  );
+  const renderer = new StreamEventRenderer(stream);
+  const streamErrors: string[] = [];
+  const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const runTurn = async (turn: {
+    prompt: string;
+    agentInstructions?: AgentInstructions;
+    resumeSessionId?: string;
+    forkSession?: boolean;
+  }) => {
+    const turnResult = await cliRunner.run(
+      {
+        ...turn,
+        abortSignal: abortController.signal,
+        cwd,
+        budget: turnBudget.budget,
+        killGraceMs: getKillGraceMs(),
+        // 도구 실행 권한 요청을 채팅에서 승인/거부
+        onPermissionRequest: ChatPermissionManager.isEnabled()
+          ? ChatPermissionManager.createHandler(stream, token)
+          : undefined,
+      },
+      (event) => {
+        if (event.type === 'error') {
+          streamErrors.push(event.message);
+        }
+        renderer.render(event);
+      }
+    );
+    renderer.flush();
+    return turnResult;
+  };
 
-  // 새 세션 ID가 있고 기존 세션이 없을 경우, 다음 대화에서 찾을 수 있도록 마커 삽입
-  if (result.sessionId && !existingSessionId) {
-    ChatSessionManager.saveSessionId(stream, result.sessionId);
+  // 사용량 기록 (에이전트/모델/워크스페이스/날짜별 누적, 세션 예산)
+  const recordUsage = async (turnResult: CliResult, sessionId: string | undefined) => {
+    if (turnResult.usage) {
+      await UsageLedger.record(cliRunner.name, turnResult.usage);
+      await ChatBudgetManager.recordSpend(cliRunner.name, sessionId, turnResult.usage);
+    }
+  };
+
+  // /fork: CLI가 지원하면 세션을 복제하여 재개하고, 아니면 대화 기록 요약으로 새 세션 시작
+  const forkNatively = !!forkSessionId && !!cliRunner.supportsForkSession?.();
+  const resumeTarget = forkNatively ? forkSessionId : existingSessionId;
+  if (forkSessionId) {
+    stream.markdown(
+      `🍴 **Session forked:** continuing from \`${forkSessionId}\` in a new session; the original session is unchanged.\n\n`
+    );
   }
 
-  // Agent 이름이 변경되었으면 마커 저장 (다음 대화에서 중복 전달 방지)
-  if (currentAgentName && shouldPassInstructions) {
-    ChatSessionManager.saveAgentName(stream, currentAgentName);
+  let result = await runTurn({
+    prompt: forkSessionId && !forkNatively
+      ? buildTranscriptPrompt(history, resolvedPrompt, 'fork')
+      : resolvedPrompt,
+    agentInstructions: effectiveAgentInstructions,
+    resumeSessionId: resumeTarget,
+    forkSession: forkNatively,
+  });
+
+  // 세션을 재개할 수 없으면 (삭제, 만료, 다른 작업 디렉토리) 대화 기록 요약으로 새 세션 시작
+  let resumedSessionId = existingSessionId;
+  let rebuilt = false;
+  let instructionsPassed = !!effectiveAgentInstructions;
+  if (resumeTarget && isSessionNotFound(cliRunner.name, result, streamErrors)) {
+    await recordUsage(result, resumeTarget);
+    stream.markdown(
+      `\n\n🔄 **Session rebuilt:** session \`${resumeTarget}\` could not be resumed, ` +
+      `so a new session was started with a summary of this chat.\n\n`
+    );
+
+    streamErrors.length = 0;
+    resumedSessionId = undefined;
+    rebuilt = true;
+    instructionsPassed = !!agentInstructions;
+    result = await runTurn({
+      prompt: buildTranscriptPrompt(history, resolvedPrompt, 'rebuilt'),
+      agentInstructions,
+    });
   }
 
   // 이벤트 리스너 정리
   cancelDisposable.dispose();
 
-  if (!result.success && result.error) {
-    stream.markdown(`\n\n---\n⚠️ **Error:** ${result.error}`);
-    return false;
+  const sessionId = result.sessionId ?? resumedSessionId;
+  await recordUsage(result, sessionId);
+
+  const failed = !result.success && !!result.error;
+  if (result.budgetExceeded) {
+    ChatBudgetManager.renderExceeded(stream, cliRunner.name, sessionId, result.budgetExceeded, !result.success);
+  } else if (result.cancelled) {
+    stream.markdown('\n\n---\n⏹️ **Cancelled**');
+  } else if (failed) {
+    stream.markdown(`\n\n---\n⚠️ **Error:** ${neutralizeMarkers(result.error!)}`);
+
+    // stderr와 스트림 에러로 실패를 분류하여 해결 방법 안내
+    const category = classifyCliError(
+      cliRunner.name,
+      [result.error, ...streamErrors].join('\n')
+    );
+    if (category) {
+      FailureRemediation.render(stream, cliRunner, category);
+    }
+  }
+
+  // 응답 푸터: 현재 적용된 권한 프로필 및 사용량 표시
+  const footer: string[] = [];
+  const profile = cliRunner.getPermissionProfile?.();
+  if (profile) {
+    footer.push(`🛡️ \`${profile}\``);
+  }
+  const showUsage = vscode.workspace.getConfiguration('CCA').get<boolean>('showUsageFooter', true);
+  if (showUsage && result.usage) {
+    footer.push(...formatUsageParts(result.usage));
+  }
+  if (footer.length > 0) {
+    stream.markdown(`\n\n---\n*${neutralizeMarkers(footer.join(' · '))}*`);
   }
 
-  return true;
+  // 다음 대화에서 ChatResponseTurn.result로 읽을 세션 정보 (복구된 세션은 이전 세션 ID를 대체)
+  // 에이전트 지침을 이번에 전달하지 않았으면 재개한 세션에 전달된 지침 정보 유지
+  const passedInstructions = instructionsPassed ? agentInstructions : undefined;
+  const previous = resumedSessionId ? ChatSessionManager.findMetadata(history) : undefined;
+  const metadata: ChatSessionMetadata = {
+    sessionId,
+    cli: cliRunner.name,
+    model: result.usage?.model,
+    cwd,
+    agentName: passedInstructions?.name ?? (resumedSessionId ? ChatSessionManager.findAgentName(history) : undefined),
+    agentInstructionsHash: passedInstructions
+      ? ChatSessionManager.hashAgentInstructions(passedInstructions)
+      : previous?.agentInstructionsHash,
+    usage: result.usage,
+    // 세션 계보 (/session): 포크 원본, 다시 만든 세션의 이전 ID 또는 /new로 대체한 세션 ID
+    // origin이 new인 응답 이전의 세션은 다음 대화에서 재개하지 않음
+    origin: forkSessionId ? 'fork' : rebuilt ? 'rebuilt' : sessionAction === 'new' ? 'new' : undefined,
+    parentSessionId: forkSessionId ?? (rebuilt ? resumeTarget : sessionAction === 'new' ? currentSessionId : undefined),
+  };
+  return { metadata };
 }
@@ -6,6 +6,7 @@ import * as vscode from 'vscode';
 import { ExtendedChatRequest, ParticipantConfig } from './types';
 import { findCommand, CommandContext } from './command';
 import { runCliWithStreaming } from './feature/utils';
+import { ChatSessionManager } from './session';
 
 /**
  * Chat Participant 핸들러 생성
@@ -20,43 +21,56 @@ export function createParticipantHandler(
     context: vscode.ChatContext,
     stream: vscode.ChatResponseStream,
     token: vscode.CancellationToken
-  ): Promise<void> => {
-    const { cliRunner, name } = config;
+  ): Promise<vscode.ChatResult | void> => {
+    // 마커 서명 키 로드 대기 (선택 마커 검증과 /use 마커 서명에 필요)
+    await ChatSessionManager.ready();
+
+    // 대화별 Runner 선택 (@cli의 /use)
+    // 선택 이후의 히스토리만 사용하여 이전 에이전트의 세션이 재개되지 않도록 분리
+    const selectedRunner = await config.selectCliRunner?.(context.history);
+    const activeConfig = selectedRunner ? { ...config, name: selectedRunner.name, cliRunner: selectedRunner } : config;
+    const activeContext: vscode.ChatContext = {
+      ...context,
+      history: ChatSessionManager.getHistorySinceSelection(context.history),
+    };
+    const { cliRunner, name } = activeConfig;
 
     // Custom Agent 에이전트 지침 추출 (모든 CLI에서 자동 처리)
-    // 중복 전달 방지는 runCliWithStreaming 내부에서 히스토리 기반으로 처리됨
+    // 중복 전달 방지는 runCliWithStreaming 내부에서 응답 메타데이터 기반으로 처리됨
     const agentInstructions = (request as ExtendedChatRequest).modeInstructions2;
 
     // 커맨드 처리: 등록된 커맨드 찾기 및 실행
-    if (request.command) {
-      const command = findCommand(request.command);
-      if (command) {
-        const ctx: CommandContext = { 
-          request, 
-          context, 
-          stream, 
-          token, 
-          config, 
-          agentInstructions,
-          prompt: request.prompt || undefined
-        };
-        const handled = await command.handler(ctx);
-        if (handled) {
-          return;
-        }
+    const command = request.command ? findCommand(request.command) : undefined;
+    if (command) {
+      const ctx: CommandContext = { 
+        request, 
+        context: activeContext, 
+        stream, 
+        token, 
+        config: activeConfig, 
+        agentInstructions,
+        prompt: request.prompt || undefined
+      };
+      const handled = await command.handler(ctx);
+      if (handled) {
+        return handled === true ? undefined : handled;
       }
     }
 
-    // 일반 처리: CLI 실행
-    await runCliWithStreaming({
+    // 일반 처리: CLI 실행 (세션 정보는 ChatResult.metadata로 다음 대화에 전달)
+    // 처리되지 않은 커맨드는 커맨드 옵션을 적용하여 CLI로 전달
+    return runCliWithStreaming({
       cliRunner,
       name,
-      prompt: request.prompt,
+      prompt: request.prompt.trim() ? request.prompt : command?.defaultPrompt ?? request.prompt,
       references: request.references,
-      history: context.history,
+      history: activeContext.history,
       stream,
       token,
       agentInstructions,
+      commandName: command?.name,
+      forceAgentInstructions: command?.forceAgentInstructions,
+      sessionAction: command?.sessionAction,
     });
   };
 }
@@ -5,5 +5,8 @@
 export * from './types';
 export * from './handler';
 export * from './session';
+export * from './permission';
+export * from './usage';
+export * from './budget';
 export * from './command';
 export { registerAllParticipants } from './register';
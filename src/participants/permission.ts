@@ -0,0 +1,229 @@
+/**
+ * 채팅 기반 도구 실행 권한 관리자
+ * CLI의 권한 요청을 채팅 응답에 버튼으로 표시하고 사용자 결정을 CLI에 전달
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { PermissionDecision, PermissionRequest, PermissionRequestHandler, permissionBroker } from '../cli';
+import { neutralizeMarkers } from './session';
+
+/**
+ * 권한 결정 응답 커맨드 ID
+ */
+export const RESPOND_PERMISSION_COMMAND = 'copilot-cli-agents.respondPermission';
+
+/**
+ * 항상 허용된 도구 목록을 저장하는 workspaceState 키
+ */
+const ALWAYS_ALLOWED_KEY = 'cca.permission.alwaysAllowed';
+
+/**
+ * 셸 명령 실행 도구 이름 (명령마다 위험도가 달라 항상 허용을 제공하지 않음)
+ */
+const SHELL_TOOLS = ['Bash', 'commandExecution', 'run_shell_command', 'shell'];
+
+/**
+ * 파라미터 미리보기 최대 길이
+ */
+const MAX_PREVIEW_LENGTH = 2000;
+
+/**
+ * 응답 대기 중인 권한 요청
+ */
+interface PendingPermission {
+  /** 결정 전달 함수 */
+  resolve: (decision: PermissionDecision) => void;
+}
+
+/**
+ * 채팅 기반 도구 실행 권한 관리자
+ */
+export class ChatPermissionManager {
+  private static state?: vscode.Memento;
+  private static readonly pending = new Map<string, PendingPermission>();
+
+  /**
+   * 초기화 (항상 허용 목록 저장소 설정 및 브로커 정리 등록)
+   * @param context - VS Code Extension Context
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.workspaceState;
+    context.subscriptions.push({
+      dispose: () => {
+        // 대기 중인 요청은 모두 거부 처리
+        for (const entry of this.pending.values()) {
+          entry.resolve('deny');
+        }
+        this.pending.clear();
+        permissionBroker.dispose();
+      },
+    });
+  }
+
+  /**
+   * 인터랙티브 승인 사용 여부
+   */
+  static isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('CCA').get<boolean>('interactiveApprovals', true);
+  }
+
+  /**
+   * 채팅 응답 스트림에 연결된 권한 요청 처리 함수 생성
+   * @param stream - Chat response stream
+   * @param token - Cancellation token (취소 시 대기 중인 요청 거부)
+   * @returns 권한 요청 처리 함수
+   */
+  static createHandler(
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): PermissionRequestHandler {
+    return async (request) => {
+      if (this.isAlwaysAllowed(request)) {
+        stream.markdown(`\n\n> ✅ \`${neutralizeMarkers(request.toolName)}\` allowed (always allowed in this workspace)\n\n`);
+        return 'allow';
+      }
+      if (token.isCancellationRequested) {
+        return 'deny';
+      }
+
+      const requestId = crypto.randomUUID();
+      stream.markdown(this.formatRequest(request));
+      stream.button({ title: 'Allow', command: RESPOND_PERMISSION_COMMAND, arguments: [requestId, 'allow'] });
+      stream.button({ title: 'Deny', command: RESPOND_PERMISSION_COMMAND, arguments: [requestId, 'deny'] });
+      if (this.getAlwaysAllowedKey(request)) {
+        stream.button({ title: 'Always allow', command: RESPOND_PERMISSION_COMMAND, arguments: [requestId, 'always'] });
+      }
+
+      let decision = await new Promise<PermissionDecision>((resolve) => {
+        const cancelListener = token.onCancellationRequested(() => this.resolve(requestId, 'deny'));
+        this.pending.set(requestId, {
+          resolve: (value) => {
+            cancelListener.dispose();
+            resolve(value);
+          },
+        });
+      });
+
+      // 항상 허용을 제공하지 않는 요청(셸 도구)은 이번 한 번만 허용
+      if (decision === 'always' && !this.getAlwaysAllowedKey(request)) {
+        decision = 'allow';
+      }
+      if (decision === 'always') {
+        await this.addAlwaysAllowed(request);
+      }
+
+      const outcome = decision === 'deny' ? '🚫 Denied' : '✅ Allowed';
+      stream.markdown(`\n\n> ${outcome}: \`${neutralizeMarkers(request.toolName)}\`\n\n`);
+      return decision;
+    };
+  }
+
+  /**
+   * 대기 중인 권한 요청에 결정 전달
+   * @param requestId - 권한 요청 ID
+   * @param decision - 사용자 결정
+   * @returns 대기 중인 요청이 있었는지 여부
+   */
+  static resolve(requestId: string, decision: PermissionDecision): boolean {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return false;
+    }
+    this.pending.delete(requestId);
+    entry.resolve(decision);
+    return true;
+  }
+
+  /**
+   * 항상 허용 규칙 키 생성
+   * 파일 도구는 대상 파일 경로까지 포함하고, 셸 도구는 규칙을 만들지 않음
+   * @returns 규칙 키 (항상 허용을 제공하지 않으면 undefined)
+   */
+  private static getAlwaysAllowedKey(request: PermissionRequest): string | undefined {
+    if (request.kind === 'execute' || SHELL_TOOLS.includes(request.toolName)) {
+      return undefined;
+    }
+    const { input } = request;
+    const filePath = input.file_path ?? input.notebook_path ?? input.path;
+    const files = Array.isArray(input.files) ? input.files.map(String).sort().join(',') : undefined;
+    const target = typeof filePath === 'string' ? filePath : files;
+    return target ? `${request.cli}:${request.toolName}:${target}` : `${request.cli}:${request.toolName}`;
+  }
+
+  /**
+   * 항상 허용된 요청인지 확인
+   */
+  private static isAlwaysAllowed(request: PermissionRequest): boolean {
+    const key = this.getAlwaysAllowedKey(request);
+    const allowed = this.state?.get<string[]>(ALWAYS_ALLOWED_KEY, []) ?? [];
+    return !!key && allowed.includes(key);
+  }
+
+  /**
+   * 항상 허용 목록에 규칙 추가
+   */
+  private static async addAlwaysAllowed(request: PermissionRequest): Promise<void> {
+    const key = this.getAlwaysAllowedKey(request);
+    if (!this.state || !key) {
+      return;
+    }
+    const allowed = this.state.get<string[]>(ALWAYS_ALLOWED_KEY, []);
+    if (!allowed.includes(key)) {
+      await this.state.update(ALWAYS_ALLOWED_KEY, [...allowed, key]);
+    }
+  }
+
+  /**
+   * 권한 요청을 마크다운으로 변환 (도구 이름, 파라미터, 변경 미리보기)
+   * CLI가 보낸 내용이므로 마커 형태 문자열은 무력화
+   */
+  private static formatRequest(request: PermissionRequest): string {
+    const lines = [`\n\n> 🔐 **@${request.cli}** wants to run \`${request.toolName}\``];
+    if (request.description) {
+      lines.push(`>\n> ${request.description}`);
+    }
+
+    const parts = [lines.join('\n')];
+
+    const params = this.truncate(JSON.stringify(request.input, null, 2));
+    if (params && params !== '{}') {
+      parts.push(`\`\`\`json\n${params}\n\`\`\``);
+    }
+
+    const diff = request.diff ?? this.buildDiff(request.input);
+    if (diff) {
+      parts.push(`\`\`\`diff\n${this.truncate(diff)}\n\`\`\``);
+    }
+
+    return neutralizeMarkers(`${parts.join('\n\n')}\n\n`);
+  }
+
+  /**
+   * 파일 편집/쓰기 도구 입력에서 diff 미리보기 생성 (Claude Edit/Write 도구 형식)
+   */
+  private static buildDiff(input: Record<string, unknown>): string | undefined {
+    const filePath = typeof input.file_path === 'string' ? input.file_path : undefined;
+    if (!filePath) {
+      return undefined;
+    }
+
+    const toLines = (value: unknown, prefix: string) =>
+      typeof value === 'string' ? value.split('\n').map((line) => `${prefix}${line}`) : [];
+
+    if (typeof input.new_string === 'string') {
+      return [`--- ${filePath}`, `+++ ${filePath}`, ...toLines(input.old_string, '-'), ...toLines(input.new_string, '+')].join('\n');
+    }
+    if (typeof input.content === 'string') {
+      return [`+++ ${filePath}`, ...toLines(input.content, '+')].join('\n');
+    }
+    return undefined;
+  }
+
+  /**
+   * 긴 미리보기 잘라내기
+   */
+  private static truncate(text: string): string {
+    return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}\n…` : text;
+  }
+}
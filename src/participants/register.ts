@@ -5,9 +5,17 @@
 import * as vscode from 'vscode';
 import { ParticipantConfig } from './types';
 import { createParticipantHandler } from './handler';
+import { ChatPermissionManager } from './permission';
+import { UsageLedger } from './usage';
+import { ChatBudgetManager } from './budget';
+import { ChatSessionManager } from './session';
 import { createClaudeParticipant } from './feature/claude';
 import { createCodexParticipant } from './feature/codex';
 import { createGeminiParticipant } from './feature/gemini';
+import { createCopilotParticipant } from './feature/copilot';
+import { createQwenParticipant } from './feature/qwen';
+import { createOpenCodeParticipant } from './feature/opencode';
+import { createCustomParticipant } from './feature/custom';
 
 /** Participant 생성 함수 타입 */
 type ParticipantFactory = () => ParticipantConfig;
@@ -17,6 +25,10 @@ const participantFactories: ParticipantFactory[] = [
   createGeminiParticipant,
   createClaudeParticipant,
   createCodexParticipant,
+  createCopilotParticipant,
+  createQwenParticipant,
+  createOpenCodeParticipant,
+  createCustomParticipant,
 ];
 
 /**
@@ -36,7 +48,10 @@ function registerParticipant(
   // Chat Participant 아이콘 설정
   participant.iconPath = iconPath;
 
-  return participant;
+  // 확장 비활성화 시 Runner 리소스도 함께 정리
+  return vscode.Disposable.from(participant, {
+    dispose: () => config.cliRunner.dispose?.(),
+  });
 }
 
 /**
@@ -44,6 +59,18 @@ function registerParticipant(
  * @param context - VS Code Extension Context
  */
 export function registerAllParticipants(context: vscode.ExtensionContext): void {
+  // 채팅 기반 도구 실행 권한 관리자 초기화
+  ChatPermissionManager.initialize(context);
+
+  // 사용량 기록 저장소 초기화
+  UsageLedger.initialize(context);
+
+  // 세션 예산 저장소 초기화
+  ChatBudgetManager.initialize(context);
+
+  // 세션 마커 서명 키 초기화
+  ChatSessionManager.initialize(context);
+
   // Participant 설정 생성 및 등록
   for (const factory of participantFactories) {
     const config = factory();
@@ -0,0 +1,82 @@
+/**
+ * 실패 해결 안내
+ * 분류된 CLI 실패(로그인 필요, 요청 한도 초과 등)에 맞는 해결 방법과
+ * 로그인/새 세션/모델 변경 버튼을 채팅 응답에 표시
+ */
+
+import * as vscode from 'vscode';
+import { CliErrorCategory, CliRunner } from '../cli/types';
+import { getInteractiveCliCommand } from './feature/utils';
+
+/**
+ * CLI 로그인 터미널을 여는 커맨드 ID
+ */
+export const LOGIN_CLI_COMMAND = 'copilot-cli-agents.loginCli';
+
+/**
+ * CLI별 로그인 인자 (없으면 대화형 CLI를 실행하여 로그인 흐름 시작)
+ */
+const LOGIN_ARGS: Record<string, string[]> = {
+  codex: ['login'],
+  opencode: ['auth', 'login'],
+};
+
+/**
+ * 분류별 해결 안내 문구
+ */
+const REMEDIATION_MESSAGES: Record<CliErrorCategory, (cli: string) => string> = {
+  not_authenticated: (cli) => `**@${cli}** is not signed in. Log in once in a terminal, then send your message again.`,
+  rate_limited: (cli) => `**@${cli}** hit a rate limit or quota. Wait a moment and retry, or switch to another model.`,
+  unknown_model: (cli) => `The model configured for **@${cli}** is not available. Pick a model your account supports.`,
+  session_not_found: (cli) => `The **@${cli}** session of this chat no longer exists. Start a new chat to begin a fresh session.`,
+  network_unavailable: (cli) => `**@${cli}** could not reach its service. Check your connection, or set a proxy such as \`HTTPS_PROXY\` in the agent's \`env\` setting.`,
+  cli_outdated: (cli) => `The installed **@${cli}** CLI does not support an option this extension passes. Update the CLI and run \`/doctor\` to verify.`,
+};
+
+/**
+ * 실패 해결 안내 렌더러
+ */
+export class FailureRemediation {
+  /**
+   * 분류된 실패의 해결 안내와 버튼 출력
+   * @param stream - 응답 스트림
+   * @param cliRunner - 실패한 CLI Runner
+   * @param category - 실패 분류
+   */
+  static render(stream: vscode.ChatResponseStream, cliRunner: CliRunner, category: CliErrorCategory): void {
+    const cli = cliRunner.name;
+    stream.markdown(`\n\n💡 ${REMEDIATION_MESSAGES[category](cli)}\n\n`);
+
+    switch (category) {
+      case 'not_authenticated':
+        stream.button({
+          title: 'Log in',
+          command: LOGIN_CLI_COMMAND,
+          arguments: [cli, getInteractiveCliCommand(cliRunner, LOGIN_ARGS[cli] ?? [])],
+        });
+        break;
+      case 'rate_limited':
+      case 'unknown_model':
+        this.renderSettingButton(stream, 'Switch model', `${cli}.model`);
+        break;
+      case 'session_not_found':
+        stream.button({ title: 'Start new session', command: 'workbench.action.chat.newChat' });
+        break;
+      case 'network_unavailable':
+        this.renderSettingButton(stream, 'Configure environment', `${cli}.env`);
+        break;
+      case 'cli_outdated':
+        break;
+    }
+  }
+
+  /**
+   * 설정이 존재하는 경우에만 설정 화면 버튼 출력 (커스텀 에이전트에는 CLI별 설정이 없음)
+   */
+  private static renderSettingButton(stream: vscode.ChatResponseStream, title: string, key: string): void {
+    if (!vscode.workspace.getConfiguration('CCA').has(key)) {
+      return;
+    }
+    stream.button({ title, command: 'workbench.action.openSettings', arguments: [`CCA.${key}`] });
+  }
+}
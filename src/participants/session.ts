@@ -1,44 +1,269 @@
 /**
  * Chat History 기반 세션 관리자
- * context.history에서 세션 ID와 Agent 이름을 검색하고 저장하는 유틸리티
+ * context.history의 응답 메타데이터(ChatResult.metadata)에서 세션 ID와 Agent 정보를 검색하는 유틸리티
+ *
+ * 응답 본문에 쓰는 마커는 설치별 비밀 키(SecretStorage)로 서명하고, 서명이 맞는 마커만 읽습니다.
+ * CLI 출력의 마커 형태 텍스트는 렌더링 시 무력화되어 모델이 세션이나 에이전트 선택을 위조할 수 없습니다.
  */
 
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AgentInstructions, ChatSessionMetadata, SessionLineageEntry } from './types';
+import { logDebugError } from '../cli/spawnCliRunner';
 
 /**
- * 세션 ID 마커 패턴: [](cca:sessionId)
- * 빈 링크 형태로 저장하여 사용자에게 보이지 않음
+ * 세션 ID 마커 종류: [](cca:sessionId)
+ * 이전 버전이 응답 본문에 저장한 서명 없는 마커 (하위 호환용으로 읽기만 함)
  */
-const SESSION_MARKER_PATTERN = /\[\]\(cca:([^)]+)\)/;
+const SESSION_MARKER = 'cca';
 
 /**
- * Agent 이름 마커 패턴: [](cca-agent:agentName)
- * Custom Agent 지침 중복 전달 방지를 위해 사용
+ * Agent 이름 마커 종류: [](cca-agent:agentName)
+ * 이전 버전이 응답 본문에 저장한 서명 없는 마커 (하위 호환용으로 읽기만 함)
  */
-const AGENT_MARKER_PATTERN = /\[\]\(cca-agent:([^)]+)\)/;
+const AGENT_MARKER = 'cca-agent';
+
+/**
+ * 커스텀 에이전트 선택 마커 종류: [](cca-use:agentName:signature)
+ * @cli participant에서 /use로 선택한 에이전트를 채팅 세션에 유지하기 위해 사용
+ */
+const SELECTED_AGENT_MARKER = 'cca-use';
+
+/**
+ * 모든 CCA 마커 패턴 (대화 기록 요약에서 제거)
+ */
+const ANY_MARKER_PATTERN = /\[\]\(cca(?:-[a-z]+)?:[^)]*\)/g;
+
+/**
+ * 마커 시작 문자열 (CLI 출력에서 무력화 대상)
+ */
+const MARKER_PREFIX = '[](cca';
+
+/**
+ * CLI 출력의 마커 시작 문자열 패턴
+ */
+const MARKER_PREFIX_PATTERN = /\[\]\(cca/g;
+
+/**
+ * 마커 서명 비밀 키의 SecretStorage 키
+ */
+const MARKER_SECRET_KEY = 'copilot-cli-agents.markerSecret';
+
+/**
+ * 마커 서명 길이 (HMAC-SHA256 hex 앞부분)
+ */
+const SIGNATURE_LENGTH = 32;
+
+/**
+ * 세션 복구용 대화 기록 최대 길이 (초과 시 최근 대화 우선)
+ */
+const MAX_TRANSCRIPT_LENGTH = 20000;
+
+/**
+ * URL 디코딩 (잘못된 인코딩이면 undefined)
+ */
+function safeDecode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * CLI 출력 텍스트의 마커 형태 문자열 무력화
+ * 모델이 출력한 마커가 세션 재개나 에이전트 선택에 사용되지 않도록 `[` 뒤에 폭 없는 공백 삽입
+ * @param text - CLI 출력 텍스트
+ * @returns 마커 패턴과 일치하지 않는 텍스트
+ */
+export function neutralizeMarkers(text: string): string {
+  return text.replace(MARKER_PREFIX_PATTERN, '[\u200b](cca');
+}
+
+/**
+ * 스트리밍 텍스트 마커 필터
+ * 조각 경계에 걸친 마커도 무력화하도록 마커 시작일 수 있는 끝부분은 다음 조각까지 보류
+ */
+export class MarkerTextFilter {
+  /** 다음 조각과 이어 붙여 검사할 끝부분 */
+  private pending = '';
+
+  /**
+   * 텍스트 조각 필터링
+   * @param text - CLI 출력 텍스트 조각
+   * @returns 바로 출력할 수 있는 텍스트 (보류한 끝부분 제외)
+   */
+  write(text: string): string {
+    const combined = this.pending + text;
+    let keep = Math.min(MARKER_PREFIX.length - 1, combined.length);
+    while (keep > 0 && !MARKER_PREFIX.startsWith(combined.slice(combined.length - keep))) {
+      keep--;
+    }
+    this.pending = combined.slice(combined.length - keep);
+    return neutralizeMarkers(combined.slice(0, combined.length - keep));
+  }
+
+  /**
+   * 보류한 끝부분 반환 (마커 시작 문자열 전체가 아니므로 그대로 출력 가능)
+   */
+  end(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return rest;
+  }
+}
 
 /**
  * Chat History 기반 세션 관리자
  */
 export class ChatSessionManager {
+  /** 마커 서명 비밀 키 */
+  private static secret?: string;
+
+  /** 비밀 키 로드 작업 */
+  private static secretLoading?: Promise<void>;
+
+  /**
+   * 초기화 (확장 활성화 시 호출)
+   * 설치별 마커 서명 비밀 키를 SecretStorage에서 읽거나 새로 생성
+   * @param context - VS Code Extension Context
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.secretLoading = this.loadSecret(context.secrets);
+  }
+
+  /**
+   * 비밀 키 로드 완료 대기 (마커를 읽거나 쓰기 전에 호출)
+   */
+  static async ready(): Promise<void> {
+    await this.secretLoading;
+  }
+
+  /**
+   * SecretStorage에서 비밀 키 로드 (없으면 생성하여 저장)
+   */
+  private static async loadSecret(secrets: vscode.SecretStorage): Promise<void> {
+    try {
+      const stored = await secrets.get(MARKER_SECRET_KEY);
+      if (stored) {
+        this.secret = stored;
+        return;
+      }
+      this.secret = crypto.randomBytes(32).toString('hex');
+      await secrets.store(MARKER_SECRET_KEY, this.secret);
+    } catch (error) {
+      // 저장소를 사용할 수 없으면 이번 실행 동안만 유효한 키 사용
+      logDebugError('Failed to access marker secret:', error);
+    }
+  }
+
+  /**
+   * 마커 값 서명
+   * @param kind - 마커 종류
+   * @param value - URL 인코딩된 마커 값
+   * @returns HMAC-SHA256 서명 (hex 앞부분)
+   */
+  private static sign(kind: string, value: string): string {
+    this.secret ??= crypto.randomBytes(32).toString('hex');
+    return crypto.createHmac('sha256', this.secret).update(`${kind}:${value}`).digest('hex').slice(0, SIGNATURE_LENGTH);
+  }
+
+  /**
+   * 서명한 마커를 스트림에 출력
+   * @param stream - Chat response stream
+   * @param kind - 마커 종류
+   * @param value - 마커 값
+   */
+  private static writeMarker(stream: vscode.ChatResponseStream, kind: string, value: string): void {
+    const encoded = encodeURIComponent(value);
+    stream.markdown(`[](${kind}:${encoded}:${this.sign(kind, encoded)})`);
+  }
+
+  /**
+   * 응답 본문에서 서명이 맞는 마커 값 검색
+   * @param turn - 응답 턴
+   * @param kind - 마커 종류
+   * @param allowUnsigned - 서명 없는 이전 버전 마커 허용 여부
+   * @returns 마커 값 또는 undefined
+   */
+  private static findMarker(turn: vscode.ChatResponseTurn, kind: string, allowUnsigned: boolean): string | undefined {
+    const pattern = new RegExp(`\\[\\]\\(${kind}:([^)]+)\\)`, 'g');
+    for (const part of turn.response) {
+      if (!(part instanceof vscode.ChatResponseMarkdownPart)) {
+        continue;
+      }
+      for (const match of part.value.value.matchAll(pattern)) {
+        // URL 인코딩된 값에는 ':'가 없으므로 마지막 ':' 뒤가 서명
+        const separator = match[1].lastIndexOf(':');
+        if (separator < 0) {
+          if (allowUnsigned) {
+            return safeDecode(match[1]);
+          }
+          continue;
+        }
+        const encoded = match[1].slice(0, separator);
+        const signature = Buffer.from(match[1].slice(separator + 1));
+        const expected = Buffer.from(this.sign(kind, encoded));
+        if (signature.length === expected.length && crypto.timingSafeEqual(signature, expected)) {
+          return safeDecode(encoded);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 응답 메타데이터를 기록한 첫 응답의 인덱스 (없으면 history 길이)
+   * 이전 버전의 서명 없는 마커는 이 인덱스 이전의 응답에서만 신뢰
+   */
+  private static findLegacyBoundary(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): number {
+    const index = history.findIndex(
+      (turn) => turn instanceof vscode.ChatResponseTurn && (turn.result.metadata as ChatSessionMetadata | undefined)?.cli
+    );
+    return index < 0 ? history.length : index;
+  }
+
+  /**
+   * history에서 가장 최근 응답 메타데이터 검색
+   * @param history - Chat history
+   * @returns 응답 메타데이터 또는 undefined
+   */
+  static findMetadata(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): ChatSessionMetadata | undefined {
+    history = this.getHistorySinceReset(history);
+    for (let i = history.length - 1; i >= 0; i--) {
+      const turn = history[i];
+      const metadata = turn instanceof vscode.ChatResponseTurn
+        ? turn.result.metadata as ChatSessionMetadata | undefined
+        : undefined;
+      if (metadata?.cli) {
+        return metadata;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * history에서 기존 세션 ID 검색
+   * 세션이 복구되면 이후 응답에 새 세션 ID가 기록되므로 가장 최근 값 사용 (/new 이전 세션은 제외)
    * @param history - Chat history
    * @returns 세션 ID 또는 undefined
    */
   static findSessionId(
     history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
   ): string | undefined {
-    for (const turn of history) {
+    history = this.getHistorySinceReset(history);
+    const legacyBoundary = this.findLegacyBoundary(history);
+    for (let i = history.length - 1; i >= 0; i--) {
+      const turn = history[i];
       if (turn instanceof vscode.ChatResponseTurn) {
-        for (const part of turn.response) {
-          if (part instanceof vscode.ChatResponseMarkdownPart) {
-            const match = part.value.value.match(SESSION_MARKER_PATTERN);
-            if (match) {
-              // URL 디코딩하여 원래 세션 ID 반환
-              return decodeURIComponent(match[1]);
-            }
-          }
+        const metadata = turn.result.metadata as ChatSessionMetadata | undefined;
+        const sessionId = metadata?.sessionId ?? this.findMarker(turn, SESSION_MARKER, i < legacyBoundary);
+        if (sessionId) {
+          return sessionId;
         }
       }
     }
@@ -46,19 +271,47 @@ export class ChatSessionManager {
   }
 
   /**
-   * 세션 ID를 스트림에 마커로 저장
-   * 특수문자가 포함된 ID는 URL 인코딩하여 마크다운 링크 문법 오류 방지
-   * @param stream - Chat response stream
-   * @param sessionId - 저장할 세션 ID
+   * 세션 복구/포크용 대화 기록 요약 생성 (요청과 응답 본문, 마커 제외, /new 이전 대화 제외)
+   * @param history - Chat history
+   * @returns "User:"/"Assistant:" 형식의 대화 기록 (최근 대화 우선으로 길이 제한)
    */
-  static saveSessionId(stream: vscode.ChatResponseStream, sessionId: string): void {
-    // URL 인코딩으로 특수문자 처리 (마크다운 링크 파싱 오류 방지)
-    const encodedId = encodeURIComponent(sessionId);
-    stream.markdown(`[](cca:${encodedId})`);
+  static buildTranscript(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): string {
+    history = this.getHistorySinceReset(history);
+    const entries: string[] = [];
+    let remaining = MAX_TRANSCRIPT_LENGTH;
+
+    for (let i = history.length - 1; i >= 0 && remaining > 0; i--) {
+      const turn = history[i];
+      let entry: string | undefined;
+
+      if (turn instanceof vscode.ChatRequestTurn) {
+        const command = turn.command ? `/${turn.command} ` : '';
+        entry = `User: ${command}${turn.prompt}`;
+      } else {
+        const text = turn.response
+          .filter((part): part is vscode.ChatResponseMarkdownPart => part instanceof vscode.ChatResponseMarkdownPart)
+          .map((part) => part.value.value)
+          .join('')
+          .replace(ANY_MARKER_PATTERN, '')
+          .trim();
+        entry = text ? `Assistant: ${text}` : undefined;
+      }
+
+      if (!entry) {
+        continue;
+      }
+      // 한도를 넘는 가장 오래된 항목은 뒷부분만 유지
+      entries.unshift(entry.length > remaining ? `…${entry.slice(entry.length - remaining)}` : entry);
+      remaining -= entry.length;
+    }
+
+    return entries.join('\n\n');
   }
 
   /**
-   * history에서 기존 Agent 이름 검색
+   * history에서 세션에 전달된 Agent 이름 검색
    * @param history - Chat history
    * @returns Agent 이름 또는 undefined
    */
@@ -66,17 +319,15 @@ export class ChatSessionManager {
     history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
   ): string | undefined {
     // 가장 최근 Agent 이름을 찾기 위해 역순으로 검색
+    history = this.getHistorySinceReset(history);
+    const legacyBoundary = this.findLegacyBoundary(history);
     for (let i = history.length - 1; i >= 0; i--) {
       const turn = history[i];
       if (turn instanceof vscode.ChatResponseTurn) {
-        for (const part of turn.response) {
-          if (part instanceof vscode.ChatResponseMarkdownPart) {
-            const match = part.value.value.match(AGENT_MARKER_PATTERN);
-            if (match) {
-              // URL 디코딩하여 원래 Agent 이름 반환
-              return decodeURIComponent(match[1]);
-            }
-          }
+        const metadata = turn.result.metadata as ChatSessionMetadata | undefined;
+        const agentName = metadata?.agentName ?? this.findMarker(turn, AGENT_MARKER, i < legacyBoundary);
+        if (agentName) {
+          return agentName;
         }
       }
     }
@@ -84,37 +335,141 @@ export class ChatSessionManager {
   }
 
   /**
-   * Agent 이름을 스트림에 마커로 저장
-   * 공백 등 특수문자가 포함된 이름은 URL 인코딩하여 마크다운 링크 문법 오류 방지
+   * 에이전트 지침 내용 해시 (지침 변경 감지용)
+   * @param agentInstructions - 에이전트 지침
+   * @returns SHA-256 해시 (hex 앞 16자)
+   */
+  static hashAgentInstructions(agentInstructions: AgentInstructions): string {
+    return crypto.createHash('sha256').update(agentInstructions.content).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * history에서 /use로 선택한 커스텀 에이전트 이름 검색
+   * @param history - Chat history
+   * @returns 가장 최근에 선택한 에이전트 이름 또는 undefined
+   */
+  static findSelectedAgent(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): string | undefined {
+    const index = this.findSelectionIndex(history);
+    if (index < 0) {
+      return undefined;
+    }
+    return this.findMarker(history[index] as vscode.ChatResponseTurn, SELECTED_AGENT_MARKER, false);
+  }
+
+  /**
+   * 선택한 커스텀 에이전트 이름을 스트림에 서명한 마커로 저장
    * @param stream - Chat response stream
-   * @param agentName - 저장할 Agent 이름
+   * @param agentName - 선택한 에이전트 이름
+   */
+  static saveSelectedAgent(stream: vscode.ChatResponseStream, agentName: string): void {
+    this.writeMarker(stream, SELECTED_AGENT_MARKER, agentName);
+  }
+
+  /**
+   * 마지막으로 /new로 새 세션을 시작한 응답부터의 history
+   * 같은 응답에서 시작한 세션 정보는 유지되도록 해당 응답을 포함
+   * @param history - Chat history
+   * @returns /new 응답이 없으면 전체 history
+   */
+  private static getHistorySinceReset(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn> {
+    for (let i = history.length - 1; i >= 0; i--) {
+      const turn = history[i];
+      const metadata = turn instanceof vscode.ChatResponseTurn
+        ? turn.result.metadata as ChatSessionMetadata | undefined
+        : undefined;
+      if (metadata?.origin === 'new') {
+        return history.slice(i);
+      }
+    }
+    return history;
+  }
+
+  /**
+   * 채팅에서 사용한 세션 계보 (오래된 세션부터, /new 이전 세션 포함)
+   * @param history - Chat history
+   * @returns 응답 메타데이터에 기록된 세션 목록
    */
-  static saveAgentName(stream: vscode.ChatResponseStream, agentName: string): void {
-    // URL 인코딩으로 공백 및 특수문자 처리 (마크다운 링크 파싱 오류 방지)
-    const encodedName = encodeURIComponent(agentName);
-    stream.markdown(`[](cca-agent:${encodedName})`);
+  static getSessionLineage(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): SessionLineageEntry[] {
+    const entries = new Map<string, SessionLineageEntry>();
+    for (const turn of history) {
+      const metadata = turn instanceof vscode.ChatResponseTurn
+        ? turn.result.metadata as ChatSessionMetadata | undefined
+        : undefined;
+      if (!metadata?.sessionId) {
+        continue;
+      }
+      const entry = entries.get(metadata.sessionId);
+      if (entry) {
+        entry.turns++;
+      } else {
+        entries.set(metadata.sessionId, {
+          sessionId: metadata.sessionId,
+          cli: metadata.cli,
+          origin: metadata.origin,
+          parentSessionId: metadata.parentSessionId,
+          turns: 1,
+        });
+      }
+    }
+    return [...entries.values()];
+  }
+
+  /**
+   * 마지막 에이전트 선택 이후의 history
+   * 선택 이전 에이전트의 세션 ID와 Agent 마커가 새 에이전트에 전달되지 않도록 분리
+   * @param history - Chat history
+   * @returns 선택 마커가 없으면 전체 history
+   */
+  static getHistorySinceSelection(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn> {
+    return history.slice(this.findSelectionIndex(history) + 1);
+  }
+
+  /**
+   * 에이전트 선택 마커가 있는 마지막 응답의 인덱스 (없으면 -1)
+   */
+  private static findSelectionIndex(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ): number {
+    for (let i = history.length - 1; i >= 0; i--) {
+      const turn = history[i];
+      if (turn instanceof vscode.ChatResponseTurn && this.findMarker(turn, SELECTED_AGENT_MARKER, false) !== undefined) {
+        return i;
+      }
+    }
+    return -1;
   }
 
   /**
    * Agent 지침 전달 여부 결정
-   * 히스토리의 Agent와 현재 Agent가 다르면 지침 전달 필요
+   * 세션에 마지막으로 전달된 Agent 이름과 지침 내용 해시가 현재와 다르면 지침 전달 필요
+   * (이전 버전 마커에는 해시가 없으므로 한 번 다시 전달)
    * @param history - Chat history
-   * @param currentAgentName - 현재 요청의 Agent 이름 (없으면 undefined)
+   * @param agentInstructions - 현재 요청의 Agent 지침 (없으면 undefined)
    * @returns 지침 전달이 필요하면 true
    */
   static shouldPassAgentInstructions(
     history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>,
-    currentAgentName: string | undefined
+    agentInstructions: AgentInstructions | undefined
   ): boolean {
     // 현재 Agent가 없으면 전달할 필요 없음
-    if (!currentAgentName) {
+    if (!agentInstructions) {
       return false;
     }
 
-    // 히스토리에서 기존 Agent 검색
-    const existingAgentName = this.findAgentName(history);
+    // 최근 응답 메타데이터에는 세션에 전달된 지침 정보가 유지됨
+    const metadata = this.findMetadata(history);
+    const sentAgentName = metadata ? metadata.agentName : this.findAgentName(history);
 
-    // 기존 Agent가 없거나 다르면 전달 필요
-    return existingAgentName !== currentAgentName;
+    // 기존 Agent가 없거나, 다르거나, 지침 내용이 바뀌었으면 전달 필요
+    return sentAgentName !== agentInstructions.name ||
+      metadata?.agentInstructionsHash !== this.hashAgentInstructions(agentInstructions);
   }
 }
@@ -3,7 +3,7 @@
  */
 
 import * as vscode from 'vscode';
-import type { CliRunner, AgentInstructions } from '../cli';
+import type { CliRunner, AgentInstructions, CliUsage } from '../cli';
 
 // AgentInstructions를 re-export (하위 호환성)
 export type { AgentInstructions };
@@ -22,6 +22,62 @@ export interface ParticipantConfig {
   cliRunner: CliRunner;
   /** 아이콘 경로 (터미널 등에서 사용) */
   iconPath?: vscode.Uri;
+  /**
+   * 대화별 CLI Runner 선택 (@cli처럼 /use로 에이전트를 고르는 participant)
+   * 선택된 Runner가 없으면 cliRunner 사용
+   */
+  selectCliRunner?: (
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+  ) => Promise<CliRunner | undefined>;
+}
+
+/**
+ * 채팅 응답 메타데이터 (ChatResult.metadata)
+ * 다음 대화에서 ChatResponseTurn.result로 읽어 세션 재개 및 에이전트 지침 중복 전달 방지에 사용
+ */
+export interface ChatSessionMetadata {
+  /** CLI 세션 ID */
+  sessionId?: string;
+  /** CLI 이름 */
+  cli: string;
+  /** 사용 모델 */
+  model?: string;
+  /** 작업 디렉토리 */
+  cwd?: string;
+  /** 세션에 전달된 에이전트 지침 이름 */
+  agentName?: string;
+  /** 세션에 전달된 에이전트 지침 내용 해시 */
+  agentInstructionsHash?: string;
+  /** 실행 사용량 */
+  usage?: CliUsage;
+  /** 이번 응답에서 세션이 시작된 방식 (재개한 응답에는 없음) */
+  origin?: SessionOrigin;
+  /** 포크하거나 다시 만든 세션의 원본 세션 ID (/new는 더 이상 재개하지 않는 세션 ID) */
+  parentSessionId?: string;
+}
+
+/**
+ * 세션 시작 방식
+ * - new: /new로 새로 시작
+ * - fork: /fork로 기존 세션에서 분기
+ * - rebuilt: 재개할 수 없는 세션을 대화 기록으로 다시 생성
+ */
+export type SessionOrigin = 'new' | 'fork' | 'rebuilt';
+
+/**
+ * 채팅의 세션 계보 항목 (/session 표시용)
+ */
+export interface SessionLineageEntry {
+  /** CLI 세션 ID */
+  sessionId: string;
+  /** CLI 이름 */
+  cli: string;
+  /** 세션 시작 방식 (처음 시작한 세션이면 없음) */
+  origin?: SessionOrigin;
+  /** 원본 세션 ID */
+  parentSessionId?: string;
+  /** 세션을 사용한 응답 수 */
+  turns: number;
 }
 
 /**
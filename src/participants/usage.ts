@@ -0,0 +1,137 @@
+/**
+ * CLI 사용량 기록 관리자
+ * 실행이 끝날 때마다 정규화된 사용량을 globalState에 누적하여
+ * 에이전트/모델/워크스페이스/날짜별 집계를 제공합니다.
+ */
+
+import * as vscode from 'vscode';
+import { CliUsage } from '../cli/types';
+
+/**
+ * 사용량 기록을 저장하는 globalState 키
+ */
+const USAGE_LEDGER_KEY = 'cca.usage.ledger';
+
+/**
+ * 모델 정보가 없는 실행의 모델 이름
+ */
+const UNKNOWN_MODEL = '(default)';
+
+/**
+ * 워크스페이스가 열려있지 않은 실행의 워크스페이스 이름
+ */
+const NO_WORKSPACE = '(no workspace)';
+
+/**
+ * 사용량 기록 항목 (에이전트/모델/워크스페이스/날짜 단위 누적)
+ */
+export interface UsageLedgerEntry {
+  /** 날짜 (YYYY-MM-DD, 로컬 시간) */
+  date: string;
+  /** CLI 이름 */
+  cli: string;
+  /** 모델 이름 */
+  model: string;
+  /** 워크스페이스 이름 */
+  workspace: string;
+  /** 실행 횟수 */
+  runs: number;
+  /** 입력 토큰 수 */
+  inputTokens: number;
+  /** 캐시된 입력 토큰 수 */
+  cachedInputTokens: number;
+  /** 출력 토큰 수 */
+  outputTokens: number;
+  /** 비용 (USD, CLI가 보고한 경우만 누적) */
+  costUsd: number;
+  /** 누적 실행 시간 (밀리초) */
+  durationMs: number;
+}
+
+/**
+ * 로컬 날짜 문자열 (YYYY-MM-DD)
+ */
+function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * CLI 사용량 기록 관리자
+ */
+export class UsageLedger {
+  private static state?: vscode.Memento;
+
+  /**
+   * 초기화 (사용량 기록 저장소 설정)
+   * @param context - VS Code Extension Context
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.globalState;
+  }
+
+  /**
+   * 실행 사용량 기록
+   * @param cli - CLI 이름
+   * @param usage - 정규화된 사용량
+   */
+  static async record(cli: string, usage: CliUsage): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+
+    const date = toLocalDate(new Date());
+    const model = usage.model || UNKNOWN_MODEL;
+    const workspace = vscode.workspace.name || NO_WORKSPACE;
+
+    const entries = this.getEntries();
+    let entry = entries.find(
+      (candidate) =>
+        candidate.date === date &&
+        candidate.cli === cli &&
+        candidate.model === model &&
+        candidate.workspace === workspace
+    );
+    if (!entry) {
+      entry = {
+        date,
+        cli,
+        model,
+        workspace,
+        runs: 0,
+        inputTokens: 0,
+        cachedInputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+        durationMs: 0,
+      };
+      entries.push(entry);
+    }
+
+    entry.runs += 1;
+    entry.inputTokens += usage.inputTokens ?? 0;
+    entry.cachedInputTokens += usage.cachedInputTokens ?? 0;
+    entry.outputTokens += usage.outputTokens ?? 0;
+    entry.costUsd += usage.costUsd ?? 0;
+    entry.durationMs += usage.durationMs;
+
+    await this.state.update(USAGE_LEDGER_KEY, entries);
+  }
+
+  /**
+   * 누적된 사용량 기록 조회
+   * @returns 사용량 기록 항목 목록 (복사본)
+   */
+  static getEntries(): UsageLedgerEntry[] {
+    const entries = this.state?.get<UsageLedgerEntry[]>(USAGE_LEDGER_KEY, []) ?? [];
+    return entries.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * 사용량 기록 초기화
+   */
+  static async clear(): Promise<void> {
+    await this.state?.update(USAGE_LEDGER_KEY, undefined);
+  }
+}
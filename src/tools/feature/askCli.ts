@@ -0,0 +1,112 @@
+/**
+ * ask_<cli> Language Model Tool 구현
+ *
+ * Copilot Agent 모드에서 CLI 에이전트를 서브 에이전트로 호출할 수 있도록
+ * CLI Runner를 Language Model Tool로 노출합니다.
+ */
+
+import * as vscode from 'vscode';
+import { CliResult } from '../../cli/types';
+import { ParticipantConfig } from '../../participants/types';
+import { UsageLedger } from '../../participants/usage';
+import { ChatBudgetManager } from '../../participants/budget';
+import { getKillGraceMs } from '../../participants/feature/utils';
+import { AskCliToolInput, ToolConfig } from '../types';
+
+/**
+ * 도구 결과에 세션 ID 안내 추가
+ * 호출한 모델이 다음 호출에서 sessionId로 다시 전달하여 세션을 이어갈 수 있도록 함
+ * @param sessionId - CLI 세션 ID
+ * @returns 세션 안내 문자열
+ */
+function formatSessionNotice(sessionId: string): string {
+  return `\n\n---\nSession ID: ${sessionId}\n(Pass this value as \`sessionId\` to continue the same conversation.)`;
+}
+
+/**
+ * CLI 실행 결과를 도구 결과로 변환
+ * @param result - CLI 실행 결과
+ * @returns Language Model Tool 결과
+ */
+function toToolResult(result: CliResult): vscode.LanguageModelToolResult {
+  const parts = [new vscode.LanguageModelTextPart(result.content || '(No response)')];
+
+  if (result.sessionId) {
+    parts.push(new vscode.LanguageModelTextPart(formatSessionNotice(result.sessionId)));
+  }
+
+  return new vscode.LanguageModelToolResult(parts);
+}
+
+/**
+ * ask_<cli> 도구 생성
+ * @param config - Participant 설정 (CLI Runner 재사용)
+ * @returns 도구 설정
+ */
+export function createAskCliTool(config: ParticipantConfig): ToolConfig {
+  const { cliRunner, name } = config;
+
+  const tool: vscode.LanguageModelTool<AskCliToolInput> = {
+    prepareInvocation(options) {
+      const action = options.input.sessionId ? 'Continuing' : 'Asking';
+      return {
+        invocationMessage: `${action} ${name} CLI...`,
+      };
+    },
+
+    async invoke(options, token) {
+      const { prompt, sessionId } = options.input;
+
+      // 채팅과 동일하게 턴/세션 예산 적용 (세션 예산을 모두 사용했으면 실행하지 않음)
+      const turnBudget = ChatBudgetManager.getTurnBudget(cliRunner.name, sessionId);
+      if (turnBudget.exhausted) {
+        throw new Error(
+          `${name} CLI budget exhausted: ${ChatBudgetManager.describeExceeded(turnBudget.exhausted)} for this session. ` +
+          `Adjust CCA.${cliRunner.name}.budget or start a new session.`
+        );
+      }
+
+      // AbortController 생성 (취소 토큰 연동)
+      const abortController = new AbortController();
+      const cancelDisposable = token.onCancellationRequested(() => abortController.abort());
+
+      try {
+        // 스트리밍 콘텐츠는 CliResult.content로 누적되므로 콜백에서는 별도 처리하지 않음
+        const result = await cliRunner.run(
+          {
+            prompt,
+            abortSignal: abortController.signal,
+            resumeSessionId: sessionId,
+            cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            killGraceMs: getKillGraceMs(),
+            budget: turnBudget.budget,
+          },
+          () => {}
+        );
+
+        // 사용량 기록 (에이전트/모델/워크스페이스/날짜별 누적 및 세션 예산 사용량)
+        if (result.usage) {
+          await UsageLedger.record(cliRunner.name, result.usage);
+          await ChatBudgetManager.recordSpend(cliRunner.name, result.sessionId ?? sessionId, result.usage);
+        }
+
+        if (token.isCancellationRequested) {
+          throw new vscode.CancellationError();
+        }
+
+        if (!result.success) {
+          throw new Error(`${name} CLI failed: ${result.error ?? 'Unknown error'}`);
+        }
+
+        return toToolResult(result);
+      } finally {
+        cancelDisposable.dispose();
+      }
+    },
+  };
+
+  return {
+    name: `ask_${cliRunner.name}`,
+    tool,
+  };
+}
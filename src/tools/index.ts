@@ -0,0 +1,6 @@
+/**
+ * Language Model Tools 모듈 진입점
+ */
+
+export * from './types';
+export { registerAllTools } from './register';
@@ -0,0 +1,32 @@
+/**
+ * Language Model Tool 등록 모듈
+ */
+
+import * as vscode from 'vscode';
+import { ToolConfig } from './types';
+import { createAskCliTool } from './feature/askCli';
+import { createClaudeParticipant } from '../participants/feature/claude';
+import { createCodexParticipant } from '../participants/feature/codex';
+import { createGeminiParticipant } from '../participants/feature/gemini';
+
+/**
+ * 등록할 도구 목록
+ * Participant와 동일한 CLI Runner 싱글톤을 재사용
+ */
+const tools: ToolConfig[] = [
+  createAskCliTool(createGeminiParticipant()),
+  createAskCliTool(createClaudeParticipant()),
+  createAskCliTool(createCodexParticipant()),
+];
+
+/**
+ * 모든 Language Model Tool 등록
+ * @param context - VS Code Extension Context
+ */
+export function registerAllTools(context: vscode.ExtensionContext): void {
+  for (const config of tools) {
+    const disposable = vscode.lm.registerTool(config.name, config.tool);
+    context.subscriptions.push(disposable);
+    console.log(`[copilot-cli-agents] Registered language model tool: ${config.name}`);
+  }
+}
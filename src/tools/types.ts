@@ -0,0 +1,25 @@
+/**
+ * Language Model Tool 관련 타입 정의
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * CLI 에이전트 도구 입력 (package.json의 inputSchema와 일치해야 함)
+ */
+export interface AskCliToolInput {
+  /** CLI 에이전트에게 전달할 프롬프트 */
+  prompt: string;
+  /** 이어서 대화할 CLI 세션 ID (이전 도구 결과에서 반환된 값) */
+  sessionId?: string;
+}
+
+/**
+ * Language Model Tool 설정
+ */
+export interface ToolConfig {
+  /** 도구 이름 (package.json의 languageModelTools와 일치해야 함) */
+  name: string;
+  /** 도구 구현 */
+  tool: vscode.LanguageModelTool<AskCliToolInput>;
+}
@@ -0,0 +1,209 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AcpCliRunner } from '../../src/cli/acpCliRunner';
+import { CliRunner, PermissionRequest, StreamEvent } from '../../src/cli/types';
+
+/**
+ * AcpCliRunner 테스트
+ *
+ * VS Code 없이 로컬 가짜 ACP 에이전트 스크립트(tests/fixtures/fake-acp-agent.js)를
+ * 실행하여 ACP 프로토콜 처리와 스트리밍 콘텐츠 매핑을 검증합니다.
+ */
+
+// 가짜 ACP 에이전트 스크립트 경로
+const fakeAgentPath = path.resolve(__dirname, '../fixtures/fake-acp-agent.js');
+
+/**
+ * 설치 확인 등 위임 대상이 되는 기반 Runner 스텁
+ */
+const baseRunner = {
+  name: 'fake',
+  getArgumentModel: () => [],
+  getArgumentResume: (sessionId?: string) => (sessionId ? ['--resume', sessionId] : []),
+  getArgumentDirectories: () => [],
+} as unknown as CliRunner;
+
+/**
+ * 가짜 ACP 에이전트를 실행하는 Runner 생성
+ * @param workspaceRoots - 파일 쓰기를 허용할 workspace 폴더 목록
+ * @param base - 기반 Runner (권한 프로필 지정 시)
+ */
+function createRunner(workspaceRoots: string[] = [], base: CliRunner = baseRunner): AcpCliRunner {
+  return new AcpCliRunner(
+    base,
+    () => ({
+      command: process.execPath,
+      args: [fakeAgentPath],
+    }),
+    () => workspaceRoots
+  );
+}
+
+test.describe('ACP Runner', () => {
+  /**
+   * 테스트: 새 세션 생성 및 session/update 매핑
+   */
+  test('테스트: 새 세션으로 프롬프트 실행', async () => {
+    const contents: StreamEvent[] = [];
+    const result = await createRunner().run({ prompt: 'Hello' }, (content) => contents.push(content));
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toBe('fake-session-1');
+    expect(result.content).toBe('Echo: Hello');
+    expect(contents.map((content) => content.type)).toEqual([
+      'reasoning',
+      'plan',
+      'tool_start',
+      'tool_end',
+      'text',
+    ]);
+    expect(contents[3]).toMatchObject({ type: 'tool_end', toolId: 'call-1', status: 'success', output: 'echoed', toolName: 'Echo' });
+    expect(contents[3]).toHaveProperty('durationMs');
+  });
+
+  /**
+   * 테스트: session/load로 재개 시 재생된 히스토리는 출력하지 않음
+   */
+  test('테스트: 기존 세션 재개', async () => {
+    const result = await createRunner().run({ prompt: 'Again', resumeSessionId: 'previous-session' }, () => {});
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toBe('previous-session');
+    expect(result.content).not.toContain('replayed history');
+  });
+
+  /**
+   * 테스트: 권한 요청은 기본적으로 거부
+   */
+  test('테스트: 권한 요청 거부', async () => {
+    const result = await createRunner().run({ prompt: 'Need permission' }, () => {});
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('permission:reject');
+  });
+
+  /**
+   * 테스트: 권한 요청 처리 함수가 있으면 사용자 결정에 맞는 옵션 선택
+   */
+  test('테스트: 권한 요청 승인', async () => {
+    const requests: PermissionRequest[] = [];
+    const result = await createRunner().run(
+      {
+        prompt: 'Need permission',
+        onPermissionRequest: async (request) => {
+          requests.push(request);
+          return 'allow';
+        },
+      },
+      () => {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('permission:allow\n');
+    expect(requests).toEqual([expect.objectContaining({ cli: 'fake', toolName: 'Write file' })]);
+  });
+
+  /**
+   * 테스트: 항상 허용도 에이전트에는 allow_once로 전달 (파일 단위 규칙은 채팅에서 관리)
+   */
+  test('테스트: 권한 요청 항상 허용', async () => {
+    const result = await createRunner().run(
+      { prompt: 'Need permission', onPermissionRequest: async () => 'always' },
+      () => {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('permission:allow\n');
+    expect(result.content).not.toContain('permission:allow-always');
+  });
+
+  /**
+   * 테스트: fs/write_text_file은 workspace 폴더 안의 파일만 쓰기
+   */
+  test('테스트: workspace 밖 파일 쓰기 거부', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'cca-acp-'));
+    const inside = path.join(workspace, 'inside.txt');
+    const outside = path.join(path.dirname(workspace), `${path.basename(workspace)}-outside.txt`);
+    try {
+      const allowed = await createRunner([workspace]).run({ prompt: `Please write ${inside}` }, () => {});
+      expect(allowed.content).toContain('write:ok');
+      expect(fs.readFileSync(inside, 'utf-8')).toBe('written');
+
+      const rejected = await createRunner([workspace]).run({ prompt: `Please write ${outside}` }, () => {});
+      expect(rejected.content).toContain('write:rejected (Refusing to write outside the workspace');
+      expect(fs.existsSync(outside)).toBe(false);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+      fs.rmSync(outside, { force: true });
+    }
+  });
+
+  /**
+   * 테스트: workspace 밖을 가리키는 심볼릭 링크를 통한 쓰기 거부, `..`로 시작하는 이름은 허용
+   */
+  test('테스트: 심볼릭 링크 쓰기 거부', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'cca-acp-'));
+    const outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cca-acp-outside-'));
+    try {
+      fs.symlinkSync(outsideDir, path.join(workspace, 'linked-dir'), 'dir');
+      fs.symlinkSync(path.join(outsideDir, 'target.txt'), path.join(workspace, 'linked-file.txt'));
+
+      const viaDir = await createRunner([workspace]).run(
+        { prompt: `Please write ${path.join(workspace, 'linked-dir', 'escaped.txt')}` },
+        () => {}
+      );
+      expect(viaDir.content).toContain('write:rejected (Refusing to write outside the workspace');
+
+      const viaFile = await createRunner([workspace]).run(
+        { prompt: `Please write ${path.join(workspace, 'linked-file.txt')}` },
+        () => {}
+      );
+      expect(viaFile.content).toContain('write:rejected (Refusing to write outside the workspace');
+      expect(fs.readdirSync(outsideDir)).toEqual([]);
+
+      fs.mkdirSync(path.join(workspace, '..config'));
+      const dotted = path.join(workspace, '..config', 'settings.txt');
+      const allowed = await createRunner([workspace]).run({ prompt: `Please write ${dotted}` }, () => {});
+      expect(allowed.content).toContain('write:ok');
+      expect(fs.readFileSync(dotted, 'utf-8')).toBe('written');
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+      fs.rmSync(outsideDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * 테스트: read-only 권한 프로필이면 fs/write_text_file 거부
+   */
+  test('테스트: read-only 프로필 파일 쓰기 거부', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'cca-acp-'));
+    const inside = path.join(workspace, 'inside.txt');
+    const readOnlyRunner = { ...baseRunner, getPermissionProfile: () => 'read-only' } as CliRunner;
+    try {
+      const result = await createRunner([workspace], readOnlyRunner).run({ prompt: `Please write ${inside}` }, () => {});
+      expect(result.content).toContain('write:rejected (File writes are disabled by the read-only permission profile');
+      expect(fs.existsSync(inside)).toBe(false);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * 테스트: 취소 시 session/cancel로 현재 턴만 중단
+   */
+  test('테스트: 실행 취소', async () => {
+    const abortController = new AbortController();
+    const running = createRunner().run(
+      { prompt: 'Please wait', abortSignal: abortController.signal },
+      () => {}
+    );
+    setTimeout(() => abortController.abort(), 500);
+
+    const result = await running;
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Interrupted by user');
+    expect(result.cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { CodexAppServerRunner, CodexTurnSettings } from '../../src/cli/codexAppServerRunner';
+import { CliRunner, PermissionRequest, StreamEvent } from '../../src/cli/types';
+
+/**
+ * CodexAppServerRunner 테스트
+ *
+ * VS Code 없이 로컬 가짜 app-server 스크립트(tests/fixtures/fake-codex-app-server.js)를
+ * 실행하여 스레드 유지, 턴 중단, 승인 요청 처리를 검증합니다.
+ */
+
+// 가짜 app-server 스크립트 경로
+const fakeServerPath = path.resolve(__dirname, '../fixtures/fake-codex-app-server.js');
+
+/**
+ * 설치 확인 등 위임 대상이 되는 기반 Runner 스텁
+ */
+const baseRunner = {
+  name: 'codex',
+  getArgumentPrompt: (options: { prompt?: string }) => [options.prompt ?? ''],
+} as unknown as CliRunner;
+
+test.describe('Codex App Server Runner', () => {
+  let runner: CodexAppServerRunner;
+
+  test.beforeEach(() => {
+    runner = new CodexAppServerRunner(baseRunner, {
+      buildCommand: () => ({ command: process.execPath, args: [fakeServerPath] }),
+      getTurnSettings: () => ({ model: 'fake-model' }),
+    });
+  });
+
+  test.afterEach(() => {
+    runner.dispose();
+  });
+
+  /**
+   * 테스트: 새 스레드에서 턴 실행 후 같은 스레드로 후속 턴 실행
+   */
+  test('테스트: 스레드 생성 및 재사용', async () => {
+    const contents: StreamEvent[] = [];
+    const first = await runner.run({ prompt: 'Hello' }, (content) => contents.push(content));
+
+    expect(first.success).toBe(true);
+    expect(first.sessionId).toBe('thread-1');
+    expect(first.content).toBe('Echo: Hello');
+    expect(contents.map((content) => content.type)).toEqual(['session', 'tool_start', 'tool_end', 'text', 'usage', 'usage']);
+    expect(contents[4]).toMatchObject({ type: 'usage', totalTokens: 150, partial: true });
+    expect(contents[2]).toMatchObject({ type: 'tool_end', toolName: 'shell', status: 'success' });
+    expect(first.usage).toMatchObject({ inputTokens: 120, cachedInputTokens: 100, outputTokens: 30, model: 'fake-model' });
+
+    const second = await runner.run({ prompt: 'Again', resumeSessionId: first.sessionId }, () => {});
+    expect(second.success).toBe(true);
+    expect(second.sessionId).toBe('thread-1');
+    expect(second.content).toBe('Echo: Again');
+  });
+
+  /**
+   * 테스트: 권한 프로필의 샌드박스/승인 정책을 턴마다 전달 (같은 스레드에서 프로필 변경 반영)
+   */
+  test('테스트: 권한 프로필 정책 전달', async () => {
+    let settings: CodexTurnSettings = { model: 'fake-model', sandbox: 'danger-full-access', approvalPolicy: 'never' };
+    runner.dispose();
+    runner = new CodexAppServerRunner(baseRunner, {
+      buildCommand: () => ({ command: process.execPath, args: [fakeServerPath] }),
+      getTurnSettings: () => settings,
+    });
+
+    const first = await runner.run({ prompt: 'Show policy' }, () => {});
+    expect(first.success).toBe(true);
+    expect(first.content).toContain('policy:never/dangerFullAccess');
+
+    settings = { model: 'fake-model', sandbox: 'read-only', approvalPolicy: 'on-request' };
+    const second = await runner.run({ prompt: 'Show policy again', resumeSessionId: first.sessionId }, () => {});
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(second.content).toContain('policy:on-request/readOnly');
+  });
+
+  /**
+   * 테스트: 승인 요청은 채팅에 표시하고 거부
+   */
+  test('테스트: 승인 요청 거부', async () => {
+    const contents: StreamEvent[] = [];
+    const result = await runner.run({ prompt: 'Needs approval' }, (content) => contents.push(content));
+
+    expect(result.success).toBe(true);
+    expect(result.content).not.toContain('requested approval');
+    expect(result.content).toContain('approval:decline');
+    expect(contents).toContainEqual(expect.objectContaining({
+      type: 'error',
+      message: expect.stringContaining('requested approval to run `rm -rf build`'),
+    }));
+  });
+
+  /**
+   * 테스트: 권한 요청 처리 함수가 있으면 사용자 결정을 app-server 결정 값으로 전달
+   * 항상 허용도 app-server에는 이번 요청만 허용으로 전달
+   */
+  test('테스트: 승인 요청 항상 허용', async () => {
+    const requests: PermissionRequest[] = [];
+    const result = await runner.run(
+      {
+        prompt: 'Needs approval',
+        onPermissionRequest: async (request) => {
+          requests.push(request);
+          return 'always';
+        },
+      },
+      () => {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('approval:accept ');
+    expect(result.content).not.toContain('requested approval');
+    expect(requests).toEqual([
+      expect.objectContaining({
+        cli: 'codex',
+        toolName: 'commandExecution',
+        input: { command: 'rm -rf build' },
+        description: 'needs write access',
+      }),
+    ]);
+  });
+
+  /**
+   * 테스트: 턴 도중 보고된 토큰 사용량이 예산을 넘으면 턴을 중단하고 초과 정보를 반환
+   */
+  test('테스트: 예산 초과 중단', async () => {
+    const exceeded = await runner.run({ prompt: 'Please wait', budget: { maxTokens: 100 } }, () => {});
+    expect(exceeded.success).toBe(false);
+    expect(exceeded.cancelled).toBe(false);
+    expect(exceeded.budgetExceeded).toEqual({ limit: 'tokens', used: 150, max: 100 });
+    expect(exceeded.error).toContain('Budget exceeded');
+
+    const withinBudget = await runner.run(
+      { prompt: 'Again', resumeSessionId: exceeded.sessionId, budget: { maxTokens: 1000 } },
+      () => {}
+    );
+    expect(withinBudget.success).toBe(true);
+    expect(withinBudget.budgetExceeded).toBeUndefined();
+  });
+
+  /**
+   * 테스트: 턴이 끝날 때 확인된 예산 초과는 완료된 응답을 실패로 바꾸지 않음
+   */
+  test('테스트: 완료된 턴의 예산 초과', async () => {
+    const result = await runner.run({ prompt: 'Hello', budget: { maxTokens: 100 } }, () => {});
+    expect(result.success).toBe(true);
+    expect(result.content).toBe('Echo: Hello');
+    expect(result.budgetExceeded).toEqual({ limit: 'tokens', used: 150, max: 100 });
+  });
+
+  /**
+   * 테스트: 취소 시 turn/interrupt로 현재 턴만 중단하고 스레드는 유지
+   */
+  test('테스트: 턴 중단', async () => {
+    const abortController = new AbortController();
+    const running = runner.run({ prompt: 'Please wait', abortSignal: abortController.signal }, () => {});
+    setTimeout(() => abortController.abort(), 500);
+
+    const interrupted = await running;
+    expect(interrupted.success).toBe(false);
+    expect(interrupted.error).toBe('Interrupted by user');
+    expect(interrupted.cancelled).toBe(true);
+
+    const next = await runner.run({ prompt: 'Still there?', resumeSessionId: interrupted.sessionId }, () => {});
+    expect(next.success).toBe(true);
+    expect(next.sessionId).toBe(interrupted.sessionId);
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CopilotOutputParser, findCopilotSessionId } from '../../src/cli/copilotOutput';
+import { StreamEvent, TextDeltaEvent } from '../../src/cli/types';
+
+/**
+ * GitHub Copilot CLI 출력 파서 테스트
+ *
+ * 실제 copilot 바이너리 없이 녹화된 `copilot -p` 출력(tests/fixtures/copilot/*.txt)을
+ * 라인 단위로 파싱하여 텍스트, 도구 호출, 사용량 매핑을 검증합니다.
+ */
+
+// 녹화된 출력 디렉토리
+const fixtureDir = path.resolve(__dirname, '../fixtures/copilot');
+
+/**
+ * 녹화된 출력을 파싱하여 이벤트 목록 반환
+ */
+function parseFixture(name: string): StreamEvent[] {
+  const parser = new CopilotOutputParser();
+  const lines = fs.readFileSync(path.join(fixtureDir, name), 'utf-8').split('\n');
+  // 마지막 개행 뒤의 빈 문자열은 출력 라인이 아님
+  lines.pop();
+  return lines.flatMap((line) => parser.parseLine(line).events);
+}
+
+/**
+ * 텍스트 이벤트를 이어 붙인 응답 본문
+ */
+function joinText(events: StreamEvent[]): string {
+  return events
+    .filter((event): event is TextDeltaEvent => event.type === 'text')
+    .map((event) => event.content)
+    .join('');
+}
+
+test.describe('Copilot CLI Output Parser', () => {
+  /**
+   * 테스트: 텍스트 응답과 사용량 통계
+   */
+  test('테스트: 텍스트 응답 파싱', async () => {
+    const events = parseFixture('text-only.txt');
+
+    expect(joinText(events)).toBe('Hello! How can I help you today?\n\n');
+    expect(events.filter((event) => event.type === 'usage')).toEqual([
+      { type: 'usage', durationMs: 2500 },
+      { type: 'usage', model: 'gpt-5', inputTokens: 1200, outputTokens: 15, cachedInputTokens: 0 },
+    ]);
+  });
+
+  /**
+   * 테스트: 도구 호출 블록과 들여쓰기 유지
+   */
+  test('테스트: 도구 호출 파싱', async () => {
+    const events = parseFixture('tool-calls.txt');
+
+    expect(events.filter((event) => event.type === 'tool_start' || event.type === 'tool_end')).toEqual([
+      { type: 'tool_start', toolId: 'copilot-tool-1', toolName: 'List directory src' },
+      { type: 'tool_end', toolId: 'copilot-tool-1', toolName: 'List directory src', status: 'success', output: '6 files found' },
+      { type: 'tool_start', toolId: 'copilot-tool-2', toolName: 'Run git status' },
+      { type: 'tool_end', toolId: 'copilot-tool-2', toolName: 'Run git status', status: 'success', output: '$ git status --short\n2 lines...' },
+      { type: 'tool_start', toolId: 'copilot-tool-3', toolName: 'Edit README.md' },
+      {
+        type: 'tool_end',
+        toolId: 'copilot-tool-3',
+        toolName: 'Edit README.md',
+        status: 'error',
+        output: 'Permission denied and could not request permission from user',
+      },
+    ]);
+    expect(joinText(events)).toBe(
+      "I'll look at the project layout first.\n\n" +
+      'The repository has two modified files:\n\n    src/extension.ts\n    README.md\n\n'
+    );
+    expect(events.filter((event) => event.type === 'usage')).toEqual([
+      { type: 'usage', durationMs: 66300 },
+      { type: 'usage', model: 'claude-sonnet-4.5', inputTokens: 8500, outputTokens: 312, cachedInputTokens: 6100 },
+    ]);
+  });
+
+  /**
+   * 테스트: 세션 기록 파일에서 새 세션 ID 검색
+   */
+  test('테스트: 세션 ID 검색', async () => {
+    const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'copilot-config-'));
+    try {
+      const sessionDir = path.join(configDir, 'session-state');
+      fs.mkdirSync(sessionDir);
+      const oldFile = path.join(sessionDir, '11111111-1111-4111-8111-111111111111.jsonl');
+      fs.writeFileSync(oldFile, '');
+      fs.utimesSync(oldFile, new Date(Date.now() - 60_000), new Date(Date.now() - 60_000));
+
+      const since = Date.now() - 1000;
+      expect(await findCopilotSessionId(since, [configDir])).toBeUndefined();
+
+      fs.writeFileSync(path.join(sessionDir, '22222222-2222-4222-8222-222222222222.jsonl'), '');
+      expect(await findCopilotSessionId(since, [configDir])).toBe('22222222-2222-4222-8222-222222222222');
+    } finally {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    }
+  });
+});
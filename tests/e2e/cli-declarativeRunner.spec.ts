@@ -0,0 +1,93 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { DeclarativeCliRunner } from '../../src/cli/declarativeCliRunner';
+import { CustomAgentDefinition, StreamEvent } from '../../src/cli/types';
+
+/**
+ * DeclarativeCliRunner 테스트
+ *
+ * VS Code 없이 로컬 가짜 stream-json 에이전트 스크립트(tests/fixtures/fake-stream-json-agent.js)를
+ * 실행하여 인자 템플릿과 JSON 경로 매핑을 검증합니다.
+ */
+
+// 가짜 stream-json 에이전트 스크립트 경로
+const fakeAgentPath = path.resolve(__dirname, '../fixtures/fake-stream-json-agent.js');
+
+/**
+ * 가짜 에이전트 정의
+ */
+const definition: CustomAgentDefinition = {
+  name: 'fake',
+  command: process.execPath,
+  args: [fakeAgentPath],
+  modelArgs: ['--model', '${model}'],
+  resumeArgs: ['--resume', '${sessionId}'],
+  output: {
+    sessionId: { when: { '$.type': 'init' }, path: '$.session_id' },
+    reasoning: { when: { '$.type': 'thought' }, path: '$.text' },
+    toolUse: { when: { '$.type': 'tool' }, name: '$.call.name', id: '$.call.id', input: '$.call.input' },
+    toolResult: { when: { '$.type': 'tool_output' }, id: '$.call_id', output: '$.result', isError: '$.failed' },
+    text: { when: { '$.type': 'message' }, path: '$.content' },
+  },
+};
+
+/**
+ * 가짜 에이전트를 실행하는 Runner 생성
+ */
+function createRunner(overrides: Partial<CustomAgentDefinition> = {}): DeclarativeCliRunner {
+  return new DeclarativeCliRunner({ ...definition, ...overrides }, { getDirectories: () => [] });
+}
+
+test.describe('Declarative CLI Runner', () => {
+  /**
+   * 테스트: stdin 프롬프트 전달 및 출력 매핑
+   */
+  test('테스트: stdin 프롬프트와 이벤트 매핑', async () => {
+    const contents: StreamEvent[] = [];
+    const result = await createRunner().run({ prompt: 'Hello "world"' }, (content) => contents.push(content));
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toBe('fake-stream-session');
+    expect(result.content).toBe('Echo: Hello "world"');
+    expect(contents.map((content) => content.type)).toEqual([
+      'session',
+      'reasoning',
+      'tool_start',
+      'tool_end',
+      'text',
+    ]);
+    expect(contents[2]).toMatchObject({ type: 'tool_start', toolId: 'call-1', toolName: 'Echo', params: { text: 'Hello "world"' } });
+    expect(contents[3]).toMatchObject({ type: 'tool_end', toolId: 'call-1', status: 'success', output: '{"echoed":true}' });
+  });
+
+  /**
+   * 테스트: 프롬프트/모델/재개 인자 템플릿
+   */
+  test('테스트: 인자 템플릿으로 프롬프트 및 세션 재개 전달', async () => {
+    const runner = createRunner({ model: 'mini', promptArgs: ['--prompt', '${prompt}'] });
+    const result = await runner.run({ prompt: 'Again', resumeSessionId: 'previous-session' }, () => {});
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toBe('previous-session');
+    expect(result.content).toBe('[mini] Echo: Again');
+  });
+
+  /**
+   * 테스트: 이미 취소된 시그널로 실행하면 프로세스를 시작하지 않고 취소로 보고
+   */
+  test('테스트: 실행 전 취소', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+
+    const contents: StreamEvent[] = [];
+    const result = await createRunner().run(
+      { prompt: 'Hello', abortSignal: abortController.signal },
+      (content) => contents.push(content)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+    expect(result.error).toBe('Interrupted by user');
+    expect(contents).toEqual([]);
+  });
+});
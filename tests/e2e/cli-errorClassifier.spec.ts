@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { classifyCliError } from '../../src/cli/utils/errorClassifier';
+import { CliErrorCategory } from '../../src/cli/types';
+
+/**
+ * CLI 실패 분류 테스트
+ *
+ * 실제 CLI가 출력하는 stderr/에러 메시지 예시가 CLI별 패턴 표와 공통 패턴 표에서
+ * 올바른 분류로 변환되는지 검증합니다.
+ */
+
+/**
+ * [CLI 이름, 에러 메시지, 기대 분류]
+ */
+const cases: Array<[string, string, CliErrorCategory | undefined]> = [
+  ['claude', 'Process exited with code 1\nStderr: Invalid API key · Please run /login', 'not_authenticated'],
+  ['claude', 'Process exited with code 1\nStderr: No conversation found with session ID: 3f1c2b7e', 'session_not_found'],
+  ['claude', 'Claude AI usage limit reached|1760000000', 'rate_limited'],
+  ['codex', 'unexpected status 401 Unauthorized: Missing bearer authentication in header', 'not_authenticated'],
+  ['codex', "You've hit your usage limit. Upgrade to Pro or try again in 2 hours.", 'rate_limited'],
+  ['codex', "The 'gpt-9' model is not supported when using Codex with a ChatGPT account.", 'unknown_model'],
+  ['codex', 'Process exited with code 1\nStderr: Error: thread/resume failed: no rollout found for thread id 0199', 'session_not_found'],
+  ['codex', 'stream disconnected before completion: error sending request for url', 'network_unavailable'],
+  ['gemini', 'Please set an Auth method in your settings.json or specify GEMINI_API_KEY', 'not_authenticated'],
+  ['gemini', '[API Error: {"error":{"code":429,"message":"Resource has been exhausted","status":"RESOURCE_EXHAUSTED"}}]', 'rate_limited'],
+  ['gemini', 'Error resuming session: Invalid session identifier "abc"', 'session_not_found'],
+  ['gemini', 'Unknown arguments: output-format, outputFormat', 'cli_outdated'],
+  ['qwen', 'Error resuming session: Invalid session identifier "abc"', 'session_not_found'],
+  ['copilotcli', 'Error: No authentication information found.', 'not_authenticated'],
+  ['copilotcli', "error: unknown option '--deny-tool'", 'cli_outdated'],
+  ['opencode', 'No API key found for provider anthropic', 'not_authenticated'],
+  ['opencode', 'ProviderModelNotFoundError: anthropic/claude-9', 'unknown_model'],
+  ['my-agent', 'Error: getaddrinfo ENOTFOUND api.example.com', 'network_unavailable'],
+  ['my-agent', 'You exceeded your current quota, please check your plan and billing details.', 'rate_limited'],
+  ['my-agent', 'Process exited with code 1\nStderr: Error: ENOENT: no such file or directory, open quota-report.json', undefined],
+  ['my-agent', 'Process exited with code 1\nStderr: TypeError: Cannot read properties of undefined', undefined],
+  ['codex', '', undefined],
+];
+
+test.describe('CLI Error Classifier', () => {
+  for (const [cli, message, expected] of cases) {
+    /**
+     * 테스트: CLI별 에러 메시지 분류
+     */
+    test(`테스트: ${cli} → ${expected ?? 'unclassified'} (${message.split('\n').pop()?.slice(0, 40)})`, async () => {
+      expect(classifyCliError(cli, message)).toBe(expected);
+    });
+  }
+});
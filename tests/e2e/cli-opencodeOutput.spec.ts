@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpenCodeOutputParser } from '../../src/cli/opencodeOutput';
+import { StreamEvent } from '../../src/cli/types';
+
+/**
+ * OpenCode 출력 파서 테스트
+ *
+ * 실제 opencode 바이너리 없이 녹화된 `opencode run --format json` 출력(tests/fixtures/opencode/*.jsonl)을
+ * 라인 단위로 파싱하여 세션, 도구 호출, 계획, 사용량 매핑을 검증합니다.
+ */
+
+// 녹화된 출력 디렉토리
+const fixtureDir = path.resolve(__dirname, '../fixtures/opencode');
+
+/**
+ * 녹화된 출력을 파싱하여 이벤트 목록 반환
+ */
+function parseFixture(name: string): StreamEvent[] {
+  const parser = new OpenCodeOutputParser();
+  const lines = fs.readFileSync(path.join(fixtureDir, name), 'utf-8').split('\n').filter(Boolean);
+  return lines.flatMap((line) => parser.parseLine(line).events);
+}
+
+test.describe('OpenCode Output Parser', () => {
+  /**
+   * 테스트: 도구 호출, 계획, 파일 변경, 텍스트, 사용량 매핑
+   */
+  test('테스트: 도구 호출 파싱', async () => {
+    const events = parseFixture('tool-calls.jsonl');
+
+    // 세션 ID는 모든 이벤트에 반복되지만 세션 이벤트는 한 번만 생성
+    expect(events.filter((event) => event.type === 'session')).toEqual([
+      { type: 'session', sessionId: 'ses_6a1f2c3d4e5fABCDEF' },
+    ]);
+
+    expect(events.filter((event) => event.type === 'tool_end')).toEqual([
+      { type: 'tool_end', toolId: 'call_read_1', toolName: 'read', status: 'success', output: 'export {};', durationMs: 250 },
+      { type: 'tool_end', toolId: 'call_todo_1', toolName: 'todowrite', status: 'success', output: '[]', durationMs: 10 },
+      { type: 'tool_end', toolId: 'call_edit_1', toolName: 'edit', status: 'success', output: '', durationMs: 200 },
+      {
+        type: 'tool_end',
+        toolId: 'call_bash_1',
+        toolName: 'bash',
+        status: 'error',
+        output: 'The user rejected permission to use this specific tool call.',
+        durationMs: 100,
+      },
+    ]);
+
+    expect(events.find((event) => event.type === 'plan')).toEqual({
+      type: 'plan',
+      entries: [
+        { content: 'Read entry point', status: 'completed' },
+        { content: 'Add export', status: 'in_progress' },
+      ],
+    });
+    expect(events.filter((event) => event.type === 'file_change')).toEqual([
+      { type: 'file_change', changes: [{ path: '/work/src/index.ts', kind: 'update' }] },
+    ]);
+    expect(events.filter((event) => event.type === 'text')).toEqual([
+      { type: 'text', content: 'Added `answer` to src/index.ts.' },
+    ]);
+
+    // 단계별 사용량 (추론 토큰은 출력 토큰에 포함)
+    expect(events.filter((event) => event.type === 'usage')).toEqual([
+      { type: 'usage', inputTokens: 1800, outputTokens: 150, cachedInputTokens: 600, costUsd: 0.0125 },
+      { type: 'usage', inputTokens: 2100, outputTokens: 40, cachedInputTokens: 1800, costUsd: 0.0075 },
+    ]);
+  });
+
+  /**
+   * 테스트: 에러 이벤트와 잘못된 라인 무시
+   */
+  test('테스트: 에러 이벤트 파싱', async () => {
+    const events = parseFixture('error.jsonl');
+
+    expect(events).toEqual([
+      { type: 'session', sessionId: 'ses_7b2e3f4a5b6cGHIJKL' },
+      { type: 'error', message: 'No API key found for provider anthropic' },
+    ]);
+    expect(new OpenCodeOutputParser().parseLine('Loading providers...')).toEqual({ events: [] });
+  });
+});
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+/**
+ * 테스트용 가짜 ACP 에이전트
+ *
+ * stdio JSON-RPC로 최소한의 Agent Client Protocol을 구현합니다.
+ * - 프롬프트를 그대로 echo 응답
+ * - 프롬프트에 "permission"이 포함되면 권한 요청 후 결과를 응답에 포함
+ * - 프롬프트에 "write <경로>"가 포함되면 fs/write_text_file 요청 후 결과를 응답에 포함
+ * - 프롬프트에 "wait"가 포함되면 session/cancel을 받을 때까지 대기
+ */
+
+let nextId = 1000;
+let buffer = '';
+const pendingClientRequests = new Map();
+let pendingPrompt = null;
+
+function send(message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+function update(sessionId, payload) {
+  send({ method: 'session/update', params: { sessionId, update: payload } });
+}
+
+function requestClient(method, params) {
+  const id = nextId++;
+  send({ id, method, params });
+  return new Promise((resolve) => pendingClientRequests.set(id, resolve));
+}
+
+async function handlePrompt(id, params) {
+  const { sessionId, prompt } = params;
+  const text = prompt.map((block) => block.text).join('\n');
+
+  update(sessionId, { sessionUpdate: 'agent_thought_chunk', content: { type: 'text', text: 'Thinking...' } });
+  update(sessionId, { sessionUpdate: 'plan', entries: [{ content: 'Echo the prompt', status: 'in_progress' }] });
+  update(sessionId, { sessionUpdate: 'tool_call', toolCallId: 'call-1', title: 'Echo', kind: 'other', status: 'pending' });
+  update(sessionId, {
+    sessionUpdate: 'tool_call_update',
+    toolCallId: 'call-1',
+    status: 'completed',
+    content: [{ type: 'content', content: { type: 'text', text: 'echoed' } }],
+  });
+
+  if (text.includes('permission')) {
+    const response = await requestClient('session/request_permission', {
+      sessionId,
+      toolCall: { toolCallId: 'call-2', title: 'Write file', kind: 'edit' },
+      options: [
+        { optionId: 'allow', name: 'Allow', kind: 'allow_once' },
+        { optionId: 'allow-always', name: 'Always Allow', kind: 'allow_always' },
+        { optionId: 'reject', name: 'Reject', kind: 'reject_once' },
+      ],
+    });
+    update(sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: `permission:${response.outcome.optionId}\n` } });
+  }
+
+  const write = text.match(/write (\S+)/);
+  if (write) {
+    const response = await requestClient('fs/write_text_file', { sessionId, path: write[1], content: 'written' });
+    const outcome = response?.error ? `rejected (${response.error.message})` : 'ok';
+    update(sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: `write:${outcome}\n` } });
+  }
+
+  if (text.includes('wait')) {
+    pendingPrompt = { id };
+    return;
+  }
+
+  update(sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: `Echo: ${text}` } });
+  send({ id, result: { stopReason: 'end_turn' } });
+}
+
+function handleMessage(message) {
+  // 클라이언트 응답
+  if (message.method === undefined) {
+    const resolve = pendingClientRequests.get(message.id);
+    pendingClientRequests.delete(message.id);
+    resolve?.(message.error ? { error: message.error } : message.result);
+    return;
+  }
+
+  switch (message.method) {
+    case 'initialize':
+      send({ id: message.id, result: { protocolVersion: 1, agentCapabilities: { loadSession: true } } });
+      break;
+    case 'session/new':
+      send({ id: message.id, result: { sessionId: 'fake-session-1' } });
+      break;
+    case 'session/load':
+      update(message.params.sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: 'replayed history' } });
+      send({ id: message.id, result: null });
+      break;
+    case 'session/prompt':
+      void handlePrompt(message.id, message.params);
+      break;
+    case 'session/cancel':
+      if (pendingPrompt) {
+        send({ id: pendingPrompt.id, result: { stopReason: 'cancelled' } });
+        pendingPrompt = null;
+      }
+      break;
+    default:
+      if (message.id !== undefined) {
+        send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+      }
+  }
+}
+
+process.stdin.on('data', (chunk) => {
+  buffer += chunk.toString();
+  const lines = buffer.split('\n');
+  buffer = lines.pop() || '';
+  for (const line of lines) {
+    if (line.trim()) {
+      handleMessage(JSON.parse(line));
+    }
+  }
+});
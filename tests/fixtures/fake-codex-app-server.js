@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+/**
+ * 테스트용 가짜 Codex app-server
+ *
+ * "jsonrpc" 필드가 없는 stdio JSON-RPC로 최소한의 app-server 프로토콜을 구현합니다.
+ * - 프롬프트를 그대로 echo 응답
+ * - 프롬프트에 "approval"이 포함되면 명령 실행 승인 요청 후 결정을 응답에 포함
+ * - 프롬프트에 "policy"가 포함되면 스레드 또는 마지막 턴에 지정된 승인/샌드박스 정책을 응답에 포함
+ * - 프롬프트에 "wait"가 포함되면 토큰 사용량을 먼저 보고하고 turn/interrupt를 받을 때까지 대기
+ */
+
+let nextId = 1000;
+let nextThread = 1;
+let buffer = '';
+let initialized = false;
+const pendingClientRequests = new Map();
+const waitingTurns = new Map();
+const threadPolicies = new Map();
+
+function send(message) {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function requestClient(method, params) {
+  const id = nextId++;
+  send({ id, method, params });
+  return new Promise((resolve) => pendingClientRequests.set(id, resolve));
+}
+
+function sendTokenUsage(threadId, turnId) {
+  const last = { inputTokens: 120, cachedInputTokens: 100, outputTokens: 30, reasoningOutputTokens: 0, totalTokens: 150 };
+  send({ method: 'thread/tokenUsage/updated', params: { threadId, turnId, tokenUsage: { last, total: last } } });
+}
+
+function completeTurn(threadId, turnId, status) {
+  send({ method: 'turn/completed', params: { threadId, turn: { id: turnId, status } } });
+}
+
+async function runTurn(threadId, turnId, text) {
+  send({ method: 'turn/started', params: { threadId, turn: { id: turnId, status: 'inProgress' } } });
+  send({ method: 'item/started', params: { threadId, turnId, item: { id: 'cmd-1', type: 'commandExecution', command: 'ls', status: 'inProgress' } } });
+  send({ method: 'item/completed', params: { threadId, turnId, item: { id: 'cmd-1', type: 'commandExecution', command: 'ls', aggregatedOutput: 'README.md', exitCode: 0, status: 'completed' } } });
+
+  let prefix = '';
+  if (text.includes('approval')) {
+    const response = await requestClient('item/commandExecution/requestApproval', {
+      threadId, turnId, itemId: 'cmd-2', command: 'rm -rf build', reason: 'needs write access',
+    });
+    prefix = `approval:${response.decision} `;
+  }
+  if (text.includes('policy')) {
+    prefix += `policy:${threadPolicies.get(threadId)} `;
+  }
+
+  if (text.includes('wait')) {
+    sendTokenUsage(threadId, turnId);
+    waitingTurns.set(turnId, threadId);
+    return;
+  }
+
+  send({ method: 'item/completed', params: { threadId, turnId, item: { id: 'msg-1', type: 'agentMessage', text: `${prefix}Echo: ${text}` } } });
+  sendTokenUsage(threadId, turnId);
+  completeTurn(threadId, turnId, 'completed');
+}
+
+function handleMessage(message) {
+  // 클라이언트 응답
+  if (message.method === undefined) {
+    const resolve = pendingClientRequests.get(message.id);
+    pendingClientRequests.delete(message.id);
+    resolve?.(message.result);
+    return;
+  }
+
+  if (message.method !== 'initialize' && message.method !== 'initialized' && !initialized) {
+    send({ id: message.id, error: { code: -32600, message: 'Not initialized' } });
+    return;
+  }
+
+  switch (message.method) {
+    case 'initialize':
+      send({ id: message.id, result: { userAgent: 'fake-codex' } });
+      break;
+    case 'initialized':
+      initialized = true;
+      break;
+    case 'thread/start': {
+      const threadId = `thread-${nextThread++}`;
+      threadPolicies.set(threadId, `${message.params.approvalPolicy}/${message.params.sandbox}`);
+      send({ id: message.id, result: { thread: { id: threadId } } });
+      break;
+    }
+    case 'thread/resume':
+      threadPolicies.set(message.params.threadId, `${message.params.approvalPolicy}/${message.params.sandbox}`);
+      send({ id: message.id, result: { thread: { id: message.params.threadId } } });
+      break;
+    case 'turn/start': {
+      const turnId = `turn-${nextId++}`;
+      if (message.params.approvalPolicy || message.params.sandboxPolicy) {
+        threadPolicies.set(message.params.threadId, `${message.params.approvalPolicy}/${message.params.sandboxPolicy?.type}`);
+      }
+      send({ id: message.id, result: { turn: { id: turnId, status: 'inProgress' } } });
+      void runTurn(message.params.threadId, turnId, message.params.input[0].text);
+      break;
+    }
+    case 'turn/interrupt': {
+      const threadId = waitingTurns.get(message.params.turnId);
+      waitingTurns.delete(message.params.turnId);
+      send({ id: message.id, result: {} });
+      if (threadId) {
+        completeTurn(threadId, message.params.turnId, 'interrupted');
+      }
+      break;
+    }
+    default:
+      send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+  }
+}
+
+process.stdin.on('data', (chunk) => {
+  buffer += chunk.toString();
+  const lines = buffer.split('\n');
+  buffer = lines.pop() || '';
+  for (const line of lines) {
+    if (line.trim()) {
+      handleMessage(JSON.parse(line));
+    }
+  }
+});
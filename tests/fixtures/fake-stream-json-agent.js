@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+/**
+ * 테스트용 가짜 stream-json 에이전트
+ *
+ * stdin(또는 --prompt 인자)으로 받은 프롬프트를 JSON 라인으로 echo 응답합니다.
+ * - --resume <id>가 있으면 해당 세션 ID를 보고
+ * - --model <name>이 있으면 응답에 모델 이름을 포함
+ */
+
+const args = process.argv.slice(2);
+
+function option(name) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function emit(message) {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function respond(prompt) {
+  const sessionId = option('--resume') ?? 'fake-stream-session';
+  const model = option('--model');
+
+  emit({ type: 'init', session_id: sessionId });
+  emit({ type: 'thought', text: 'Thinking...' });
+  emit({ type: 'tool', call: { id: 'call-1', name: 'Echo', input: { text: prompt } } });
+  emit({ type: 'tool_output', call_id: 'call-1', result: { echoed: true }, failed: false });
+  console.log('not a json line');
+  emit({ type: 'message', content: model ? `[${model}] Echo: ${prompt}` : `Echo: ${prompt}` });
+}
+
+const promptArg = option('--prompt');
+if (promptArg !== undefined) {
+  respond(promptArg);
+} else {
+  let input = '';
+  process.stdin.on('data', (chunk) => {
+    input += chunk;
+  });
+  process.stdin.on('end', () => respond(input));
+}